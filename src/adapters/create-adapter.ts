@@ -0,0 +1,41 @@
+import { KeyValueCacheAdapter, KeyValueCacheParts } from "../types";
+
+/**
+ * Build a full adapter from separate key-value storage, file system and options.
+ *
+ * @param parts - The parts to build the adapter from.
+ * @returns An adapter that delegates to the given parts.
+ */
+export function createAdapter<TKeyParams, TMetadata = unknown>({
+  store,
+  files,
+  keyFor,
+  options,
+  metadataSchema,
+  revalidator,
+}: KeyValueCacheParts<TKeyParams, TMetadata>): KeyValueCacheAdapter<
+  TKeyParams,
+  TMetadata
+> {
+  return {
+    ...options,
+    metadataSchema,
+    revalidator,
+
+    getValueForKey: key => store.getValueForKey(key),
+    setValueForKey: (key, value) => store.setValueForKey(key, value),
+    deleteKeyValue: key => store.deleteKeyValue(key),
+    getAllKeys: () => store.getAllKeys(),
+    // Bound, since the optional methods may be those of a class instance too.
+    getValuesForKeys: store.getValuesForKeys?.bind(store),
+    setValuesForKeys: store.setValuesForKeys?.bind(store),
+    deleteKeyValues: store.deleteKeyValues?.bind(store),
+    getKeyFor: params => keyFor(params),
+
+    fileExists: path => files.fileExists(path),
+    fileUnlink: path => files.fileUnlink(path),
+    fileSize: path => files.fileSize(path),
+    listFiles: files.listFiles?.bind(files),
+    fileFingerprint: files.fileFingerprint?.bind(files),
+  };
+}
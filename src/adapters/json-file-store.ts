@@ -0,0 +1,217 @@
+import { appendFile, mkdir, readFile, rename, writeFile } from "fs/promises";
+import { join } from "path";
+import { KeyValueStore } from "../types";
+
+/**
+ * JSON File Store Options
+ *
+ * @field directory - The directory to persist the store in, created if needed.
+ * @field fileName - The name of the file in the directory. Defaults to `store.json` or `store.log` depending on the format.
+ * @field format - `json` rewrites the whole file on every change, `log` appends every change and compacts from time to time.
+ * @field compactAfter - With the `log` format, the number of appended lines after which the log is compacted. Defaults to 1000.
+ */
+export interface JsonFileStoreOptions {
+  directory: string;
+  fileName?: string;
+  format?: "json" | "log";
+  compactAfter?: number;
+}
+
+/**
+ * Create a key-value store persisted to a file in a directory.
+ *
+ * Values are kept in memory and loaded from the file on first use.
+ * Writes are applied one at a time, batches in a single write, and whole-file rewrites go through a temporary file and a rename.
+ *
+ * @param options - The options for the store.
+ * @returns A key-value store.
+ */
+export function createJsonFileStore(
+  options: JsonFileStoreOptions
+): KeyValueStore {
+  const format = options.format ?? "json";
+  const compactAfter = options.compactAfter ?? 1000;
+  const filePath = join(
+    options.directory,
+    options.fileName ?? (format === "log" ? "store.log" : "store.json")
+  );
+
+  let loading: Promise<Map<string, string>> | null = null;
+  let writes: Promise<unknown> = Promise.resolve();
+  // Counting the lines of the loaded log, so that a log appended to a little on every run still gets compacted.
+  let appendedLines = 0;
+
+  function load() {
+    if (!loading) {
+      loading = readStoreFile(filePath, format).then(({ data, lines }) => {
+        appendedLines = lines;
+        return data;
+      });
+    }
+    return loading;
+  }
+
+  async function rewrite(data: Map<string, string>) {
+    const content =
+      format === "log"
+        ? [...data].map(entry => toLogLine(entry)).join("")
+        : JSON.stringify(toRecord(data));
+
+    await mkdir(options.directory, { recursive: true });
+    await writeFile(`${filePath}.tmp`, content);
+    await rename(`${filePath}.tmp`, filePath);
+    appendedLines = 0;
+  }
+
+  async function persist(data: Map<string, string>, lines: string[]) {
+    if (format === "json") {
+      await rewrite(data);
+      return;
+    }
+
+    if (appendedLines >= compactAfter) {
+      await rewrite(data);
+      return;
+    }
+
+    await mkdir(options.directory, { recursive: true });
+    await appendFile(filePath, lines.join(""));
+    appendedLines += lines.length;
+  }
+
+  /**
+   * Applies changes in memory and persists them in a single write, reverting them all if persisting fails.
+   */
+  function change(changes: [string, string | null][]): Promise<boolean> {
+    const result = writes.then(async () => {
+      const data = await load();
+      const previous = changes.map(([key]) => data.get(key));
+
+      for (const [key, value] of changes) {
+        if (value === null) {
+          data.delete(key);
+        } else {
+          data.set(key, value);
+        }
+      }
+
+      try {
+        await persist(
+          data,
+          changes.map(([key, value]) =>
+            value === null ? toLogLine([key]) : toLogLine([key, value])
+          )
+        );
+        return true;
+      } catch (err) {
+        // In reverse, so a key changed twice gets its original value back.
+        for (let i = changes.length - 1; i >= 0; i--) {
+          const [key] = changes[i];
+          const value = previous[i];
+          if (value === undefined) {
+            data.delete(key);
+          } else {
+            data.set(key, value);
+          }
+        }
+        return false;
+      }
+    });
+
+    writes = result;
+    return result;
+  }
+
+  return {
+    async getValueForKey(key) {
+      const data = await load();
+      return data.get(key) ?? null;
+    },
+    setValueForKey: (key, value) => change([[key, value]]),
+    deleteKeyValue: key => change([[key, null]]),
+    async getAllKeys() {
+      const data = await load();
+      return [...data.keys()];
+    },
+    async getValuesForKeys(keys) {
+      const data = await load();
+      return keys.map(key => data.get(key) ?? null);
+    },
+    async setValuesForKeys(entries) {
+      const isSet = await change(entries);
+      return entries.map(() => isSet);
+    },
+    async deleteKeyValues(keys) {
+      const isDeleted = await change(keys.map(key => [key, null]));
+      return keys.map(() => isDeleted);
+    },
+  };
+}
+
+function toRecord(data: Map<string, string>) {
+  const record: Record<string, string> = {};
+  for (const [key, value] of data) {
+    record[key] = value;
+  }
+  return record;
+}
+
+function toLogLine(entry: [string] | [string, string]) {
+  return `${JSON.stringify(entry)}\n`;
+}
+
+/**
+ * @returns The data, and the number of lines of a log.
+ */
+async function readStoreFile(filePath: string, format: "json" | "log") {
+  let content: string;
+  try {
+    content = await readFile(filePath, "utf8");
+  } catch (err) {
+    // Nothing persisted yet.
+    return { data: new Map<string, string>(), lines: 0 };
+  }
+
+  if (format === "json") {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (err) {
+      // Corrupted, start over rather than failing every call.
+      return { data: new Map<string, string>(), lines: 0 };
+    }
+
+    const data = new Map<string, string>();
+    if (parsed && typeof parsed === "object") {
+      for (const [key, value] of Object.entries(parsed)) {
+        if (typeof value === "string") {
+          data.set(key, value);
+        }
+      }
+    }
+    return { data, lines: 0 };
+  }
+
+  const data = new Map<string, string>();
+  const lines = content.split("\n").filter(line => line !== "");
+  for (const line of lines) {
+    let entry: unknown;
+    try {
+      entry = JSON.parse(line);
+    } catch (err) {
+      // Cut short by a crash while appending.
+      continue;
+    }
+
+    if (!Array.isArray(entry) || typeof entry[0] !== "string") {
+      continue;
+    }
+
+    if (typeof entry[1] === "string") {
+      data.set(entry[0], entry[1]);
+    } else {
+      data.delete(entry[0]);
+    }
+  }
+  return { data, lines: lines.length };
+}
@@ -0,0 +1,72 @@
+import { createHash } from "crypto";
+import { createReadStream } from "fs";
+import { access, readdir, stat, unlink } from "fs/promises";
+import { join } from "path";
+import { FileSystemAdapter } from "../types";
+
+/**
+ * Node File System Options
+ *
+ * @field fingerprint - `sha256` hashes the file content, `stat` combines its size and modification time, which is cheaper but misses same-size rewrites. Defaults to `sha256`.
+ */
+export interface NodeFileSystemOptions {
+  fingerprint?: "sha256" | "stat";
+}
+
+/**
+ * Create a file system adapter backed by Node.js `fs/promises`.
+ *
+ * @param options - The options for the file system.
+ * @returns A file system adapter.
+ */
+export function createNodeFileSystem(
+  options: NodeFileSystemOptions = {}
+): FileSystemAdapter {
+  const fingerprint = options.fingerprint ?? "sha256";
+
+  return {
+    async fileExists(path) {
+      try {
+        await access(path);
+        return true;
+      } catch (err) {
+        return false;
+      }
+    },
+    async fileUnlink(path) {
+      try {
+        await unlink(path);
+        return true;
+      } catch (err) {
+        return false;
+      }
+    },
+    async fileSize(path) {
+      const stats = await stat(path);
+      return stats.size;
+    },
+    async listFiles(directory) {
+      try {
+        const entries = await readdir(directory, { withFileTypes: true });
+        return entries
+          .filter(entry => entry.isFile())
+          .map(entry => join(directory, entry.name));
+      } catch (err) {
+        // Nothing written yet.
+        return [];
+      }
+    },
+    async fileFingerprint(path) {
+      if (fingerprint === "stat") {
+        const stats = await stat(path);
+        return `${stats.size}-${stats.mtimeMs}`;
+      }
+
+      const hash = createHash("sha256");
+      for await (const chunk of createReadStream(path)) {
+        hash.update(chunk as Buffer);
+      }
+      return hash.digest("hex");
+    },
+  };
+}
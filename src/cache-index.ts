@@ -0,0 +1,250 @@
+import z from "zod";
+import { EvictionPolicy } from "./eviction-policy";
+
+const zodCacheIndex = z.object({
+  // Older versions lack fields, they are rebuilt from a full scan.
+  version: z.literal(5),
+  entriesCount: z.number().int().nonnegative(),
+  diskSize: z.number().int().nonnegative(),
+  // [key, lastAccessed, size, priority, pinned, ttlMillis, expiresAt, createdAt, accessCount, inflation], least recently used first.
+  entries: z.array(
+    z.tuple([
+      z.string(),
+      z.number().int().positive(),
+      z.number().int().nonnegative(),
+      z.number(),
+      z.boolean(),
+      z.number().int().nonnegative().nullable(),
+      z.number().int().positive().nullable(),
+      z.number().int().positive(),
+      z.number().int().nonnegative(),
+      z.number().nonnegative(),
+    ])
+  ),
+});
+
+export interface CacheIndexEntry {
+  lastAccessed: number;
+  size: number;
+  priority: number;
+  pinned: boolean;
+  ttlMillis: number | null;
+  expiresAt: number | null;
+  createdAt: number;
+  accessCount: number;
+  inflation: number;
+}
+
+/**
+ * Cache Index
+ *
+ * An LRU ordering of the cache keys plus their aggregate count and size,
+ * persisted under the cache prefix so that boot and eviction don't have to scan all keys.
+ */
+export class CacheIndex {
+  // Map keeps insertion order, re-inserting a key moves it to the most recently used end.
+  private entries = new Map<string, CacheIndexEntry>();
+  private totalSize: number = 0;
+  private totalPinnedSize: number = 0;
+
+  static keyFor(prefix: string) {
+    return `${prefix}__index__`;
+  }
+
+  /**
+   * Build an index from entries, in any order.
+   */
+  static fromEntries(entries: ({ key: string } & CacheIndexEntry)[]) {
+    const index = new CacheIndex();
+    const sorted = [...entries].sort((a, b) => a.lastAccessed - b.lastAccessed);
+    for (const { key, ...entry } of sorted) {
+      index.touch(key, entry);
+    }
+    return index;
+  }
+
+  /**
+   * Parse a persisted index.
+   *
+   * @returns The index, or null if it is corrupted or its aggregates don't match its entries.
+   */
+  static parse(value: string): CacheIndex | null {
+    let parsed: z.infer<typeof zodCacheIndex>;
+    try {
+      parsed = zodCacheIndex.parse(JSON.parse(value));
+    } catch (err) {
+      return null;
+    }
+
+    const index = new CacheIndex();
+    for (const [
+      key,
+      lastAccessed,
+      size,
+      priority,
+      pinned,
+      ttlMillis,
+      expiresAt,
+      createdAt,
+      accessCount,
+      inflation,
+    ] of parsed.entries) {
+      index.touch(key, {
+        lastAccessed,
+        size,
+        priority,
+        pinned,
+        ttlMillis,
+        expiresAt,
+        createdAt,
+        accessCount,
+        inflation,
+      });
+    }
+
+    if (index.count !== parsed.entriesCount || index.size !== parsed.diskSize) {
+      return null;
+    }
+
+    return index;
+  }
+
+  get count() {
+    return this.entries.size;
+  }
+
+  get size() {
+    return this.totalSize;
+  }
+
+  get pinnedSize() {
+    return this.totalPinnedSize;
+  }
+
+  get(key: string) {
+    return this.entries.get(key);
+  }
+
+  /**
+   * The highest inflation of the entries, which is the latest one since it never decreases.
+   */
+  get inflation() {
+    let inflation = 0;
+    for (const entry of this.entries.values()) {
+      inflation = Math.max(inflation, entry.inflation);
+    }
+    return inflation;
+  }
+
+  /**
+   * Add or update an entry, making it the most recently used.
+   */
+  touch(key: string, entry: CacheIndexEntry) {
+    this.remove(key);
+    this.entries.set(key, entry);
+    this.add(entry);
+  }
+
+  /**
+   * Update an entry without changing its place in the LRU ordering.
+   */
+  update(key: string, entry: CacheIndexEntry) {
+    const previous = this.entries.get(key);
+    if (!previous) {
+      this.touch(key, entry);
+      return;
+    }
+
+    this.subtract(previous);
+    this.entries.set(key, entry);
+    this.add(entry);
+  }
+
+  remove(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return false;
+    }
+
+    this.entries.delete(key);
+    this.subtract(entry);
+    return true;
+  }
+
+  /**
+   * The keys last accessed or put after the given time.
+   */
+  keysAfter(time: number) {
+    return [...this.entries]
+      .filter(
+        ([, { lastAccessed, createdAt }]) =>
+          lastAccessed > time || createdAt > time
+      )
+      .map(([key]) => key);
+  }
+
+  keysByOldestFirst() {
+    return [...this.entries.keys()];
+  }
+
+  /**
+   * The keys that may be evicted, lowest priority first, then lowest ranked by the policy first,
+   * then least recently used first.
+   */
+  keysByEvictionOrder(policy: EvictionPolicy) {
+    return [...this.entries]
+      .filter(([, { pinned }]) => !pinned)
+      .map(([key, entry]) => ({ key, entry, rank: policy.rank(entry) }))
+      .sort((a, b) => a.entry.priority - b.entry.priority || a.rank - b.rank)
+      .map(({ key }) => key);
+  }
+
+  private add({ size, pinned }: CacheIndexEntry) {
+    this.totalSize += size;
+    if (pinned) {
+      this.totalPinnedSize += size;
+    }
+  }
+
+  private subtract({ size, pinned }: CacheIndexEntry) {
+    this.totalSize -= size;
+    if (pinned) {
+      this.totalPinnedSize -= size;
+    }
+  }
+
+  serialize() {
+    return JSON.stringify({
+      version: 5,
+      entriesCount: this.count,
+      diskSize: this.size,
+      entries: [...this.entries].map(
+        ([
+          key,
+          {
+            lastAccessed,
+            size,
+            priority,
+            pinned,
+            ttlMillis,
+            expiresAt,
+            createdAt,
+            accessCount,
+            inflation,
+          },
+        ]) => [
+          key,
+          lastAccessed,
+          size,
+          priority,
+          pinned,
+          ttlMillis,
+          expiresAt,
+          createdAt,
+          accessCount,
+          inflation,
+        ]
+      ),
+    });
+  }
+}
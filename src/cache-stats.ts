@@ -0,0 +1,136 @@
+import z from "zod";
+import { EvictionReason } from "./events";
+
+const zodCacheStatsCounters = z.object({
+  since: z.number().int().positive(),
+  hits: z.number().int().nonnegative(),
+  misses: z.number().int().nonnegative(),
+  puts: z.number().int().nonnegative(),
+  evictions: z.object({
+    expired: z.number().int().nonnegative(),
+    count: z.number().int().nonnegative(),
+    size: z.number().int().nonnegative(),
+    manual: z.number().int().nonnegative(),
+    // Added after the first snapshots were persisted.
+    integrity: z.number().int().nonnegative().default(0),
+  }),
+  corruptEntries: z.number().int().nonnegative(),
+  bytesFreed: z.number().int().nonnegative(),
+});
+
+const zodCacheStats = zodCacheStatsCounters.extend({
+  version: z.literal(1),
+});
+
+type CacheStatsCounters = z.infer<typeof zodCacheStatsCounters>;
+
+/**
+ * KeyValue Cache Stats
+ *
+ * @field since - When counting started, in milliseconds since epoch.
+ * @field hits - The number of `get` calls that found a valid entry.
+ * @field misses - The number of `get` calls that didn't.
+ * @field hitRatio - `hits / (hits + misses)`, or 0 before any `get`.
+ * @field puts - The number of entries added or replaced.
+ * @field evictions - The number of entries evicted, by reason.
+ * @field corruptEntries - The number of entries removed because they couldn't be parsed.
+ * @field bytesFreed - The total size of the evicted entries.
+ * @field entriesCount - The current number of entries.
+ * @field diskSize - The current total size of the entries.
+ * @field pinnedSize - The current total size of the pinned entries, included in `diskSize`.
+ * @field averageEntrySize - `diskSize / entriesCount`, or 0 when empty.
+ */
+export interface KeyValueCacheStats extends CacheStatsCounters {
+  hitRatio: number;
+  entriesCount: number;
+  diskSize: number;
+  pinnedSize: number;
+  averageEntrySize: number;
+}
+
+/**
+ * Cache Stats
+ *
+ * Counters of what happened to the cache, optionally persisted under the cache prefix
+ * so that they survive restarts.
+ */
+export class CacheStats {
+  private counters: CacheStatsCounters;
+
+  constructor(since: number = Date.now()) {
+    this.counters = {
+      since,
+      hits: 0,
+      misses: 0,
+      puts: 0,
+      evictions: { expired: 0, count: 0, size: 0, manual: 0, integrity: 0 },
+      corruptEntries: 0,
+      bytesFreed: 0,
+    };
+  }
+
+  static keyFor(prefix: string) {
+    return `${prefix}__stats__`;
+  }
+
+  /**
+   * Parse a persisted snapshot.
+   *
+   * @returns The stats, or null if the snapshot is corrupted.
+   */
+  static parse(value: string): CacheStats | null {
+    const stats = new CacheStats();
+    try {
+      // Strips the version from the validated snapshot.
+      stats.counters = zodCacheStatsCounters.parse(
+        zodCacheStats.parse(JSON.parse(value))
+      );
+    } catch (err) {
+      return null;
+    }
+
+    return stats;
+  }
+
+  recordHit() {
+    this.counters.hits++;
+  }
+
+  recordMiss() {
+    this.counters.misses++;
+  }
+
+  recordPut() {
+    this.counters.puts++;
+  }
+
+  recordEviction(reason: EvictionReason, size: number) {
+    this.counters.evictions[reason]++;
+    this.counters.bytesFreed += size;
+  }
+
+  recordCorrupt() {
+    this.counters.corruptEntries++;
+  }
+
+  snapshot(
+    entriesCount: number,
+    diskSize: number,
+    pinnedSize: number
+  ): KeyValueCacheStats {
+    const { hits, misses } = this.counters;
+    return {
+      ...this.counters,
+      evictions: { ...this.counters.evictions },
+      hitRatio: hits + misses > 0 ? hits / (hits + misses) : 0,
+      entriesCount,
+      diskSize,
+      pinnedSize,
+      averageEntrySize: entriesCount > 0 ? diskSize / entriesCount : 0,
+    };
+  }
+
+  serialize() {
+    return JSON.stringify({ version: 1, ...this.counters });
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * KeyValue Cache Error
+ *
+ * The base class of the errors thrown by the cache.
+ *
+ * @field cause - The error that caused it, such as the one thrown by an adapter.
+ */
+export class KeyValueCacheError extends Error {
+  readonly cause: unknown;
+
+  constructor(message: string, options: { cause?: unknown } = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * `getKeyFor` resolved to null for the params.
+ */
+export class KeyUnresolvableError extends KeyValueCacheError {
+  constructor(options?: { cause?: unknown }) {
+    super("No key could be resolved for the params", options);
+  }
+}
+
+/**
+ * The store failed to write an entry.
+ */
+export class StoreWriteError extends KeyValueCacheError {
+  constructor(
+    readonly key: string,
+    options?: { cause?: unknown }
+  ) {
+    super(`The store failed to write ${key}`, options);
+  }
+}
+
+/**
+ * The store failed to delete an entry.
+ */
+export class StoreDeleteError extends KeyValueCacheError {
+  constructor(
+    readonly key: string,
+    options?: { cause?: unknown }
+  ) {
+    super(`The store failed to delete ${key}`, options);
+  }
+}
+
+/**
+ * The file of an entry doesn't exist.
+ */
+export class FileMissingError extends KeyValueCacheError {
+  constructor(
+    readonly key: string,
+    readonly filePath: string,
+    options?: { cause?: unknown }
+  ) {
+    super(`The file of ${key} doesn't exist: ${filePath}`, options);
+  }
+}
+
+/**
+ * The file of an entry removed from the store couldn't be unlinked.
+ */
+export class FileUnlinkError extends KeyValueCacheError {
+  constructor(
+    readonly key: string,
+    readonly filePath: string,
+    options?: { cause?: unknown }
+  ) {
+    super(`The file of ${key} couldn't be unlinked: ${filePath}`, options);
+  }
+}
+
+/**
+ * An entry couldn't be parsed, and was removed.
+ */
+export class CorruptEntryError extends KeyValueCacheError {
+  constructor(
+    readonly key: string,
+    options?: { cause?: unknown }
+  ) {
+    super(`The entry of ${key} was corrupted and removed`, options);
+  }
+}
+
+/**
+ * An entry was written by a newer version of the library, and is left alone.
+ */
+export class UnknownVersionError extends KeyValueCacheError {
+  constructor(
+    readonly key: string,
+    options?: { cause?: unknown }
+  ) {
+    super(`The entry of ${key} was written by a newer version`, options);
+  }
+}
+
+/**
+ * The cache was closed.
+ */
+export class CacheClosedError extends KeyValueCacheError {
+  constructor(options?: { cause?: unknown }) {
+    super("The cache is closed", options);
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Why an entry was evicted.
+ *
+ * - expired: It reached `evictionMillis`.
+ * - count: The cache was over `maxEntries`.
+ * - size: The cache was over `maxCacheSize`.
+ * - manual: It was deleted with `delete`.
+ * - integrity: Its file no longer matches the fingerprint recorded by `put`.
+ */
+export type EvictionReason =
+  | "expired"
+  | "count"
+  | "size"
+  | "manual"
+  | "integrity";
+
+/**
+ * Why a `get` missed.
+ */
+export type MissReason =
+  | "unresolvable"
+  | "not-found"
+  | "unknown-version"
+  | "corrupt"
+  | "file-missing"
+  | "expired"
+  | "integrity";
+
+/**
+ * KeyValue Cache Events
+ *
+ * The payload of each event emitted by the cache. Unknown keys, file paths or sizes are null.
+ *
+ * @field hit - `get` found a valid entry, possibly stale.
+ * @field miss - `get` didn't find a valid entry.
+ * @field put - An entry was added or replaced.
+ * @field evict - An entry was removed, along with its file.
+ * @field corrupt - An entry that couldn't be parsed was removed.
+ * @field orphan - An entry whose file was missing was removed.
+ * @field error - The store or the file system failed to write, delete or unlink.
+ */
+export interface KeyValueCacheEvents {
+  hit: { key: string; filePath: string; size: number; isStale: boolean };
+  miss: {
+    key: string | null;
+    filePath: string | null;
+    size: number | null;
+    reason: MissReason;
+  };
+  put: { key: string; filePath: string; size: number; isReplaced: boolean };
+  evict: {
+    key: string;
+    filePath: string;
+    size: number;
+    reason: EvictionReason;
+  };
+  corrupt: { key: string; filePath: null; size: number | null };
+  orphan: { key: string; filePath: string; size: number };
+  error: {
+    key: string;
+    filePath: string | null;
+    size: number | null;
+    operation: "store-write" | "store-delete" | "file-unlink";
+  };
+}
+
+export type KeyValueCacheListener<TEvent extends keyof KeyValueCacheEvents> = (
+  payload: KeyValueCacheEvents[TEvent]
+) => void;
+
+/**
+ * Typed Event Emitter
+ *
+ * Listeners are called synchronously, in subscription order. A throwing listener
+ * doesn't prevent the others from being called, nor fails the cache operation.
+ */
+export class TypedEventEmitter<TEvents extends object> {
+  private listeners = new Map<keyof TEvents, Set<(payload: never) => void>>();
+
+  /**
+   * @returns A function that removes the listener.
+   */
+  on<TEvent extends keyof TEvents>(
+    event: TEvent,
+    listener: (payload: TEvents[TEvent]) => void
+  ) {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+
+    return () => this.off(event, listener);
+  }
+
+  off<TEvent extends keyof TEvents>(
+    event: TEvent,
+    listener: (payload: TEvents[TEvent]) => void
+  ) {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  emit<TEvent extends keyof TEvents>(event: TEvent, payload: TEvents[TEvent]) {
+    const listeners = this.listeners.get(event);
+    if (!listeners) {
+      return;
+    }
+
+    for (const listener of listeners) {
+      try {
+        (listener as (payload: TEvents[TEvent]) => void)(payload);
+      } catch (err) {
+        // Listeners must not break the cache.
+      }
+    }
+  }
+}
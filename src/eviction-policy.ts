@@ -0,0 +1,73 @@
+/**
+ * Eviction Candidate
+ *
+ * What an eviction policy knows about an entry.
+ *
+ * @field lastAccessed - When the entry was last accessed, in milliseconds since epoch.
+ * @field createdAt - When the entry was put, in milliseconds since epoch.
+ * @field size - The size of the entry file, in bytes.
+ * @field accessCount - The number of hits since the entry was put.
+ * @field inflation - With an `aging` policy, the rank of the last entry evicted for the limits when the entry was last put or hit.
+ */
+export interface EvictionCandidate {
+  lastAccessed: number;
+  createdAt: number;
+  size: number;
+  accessCount: number;
+  inflation: number;
+}
+
+/**
+ * Eviction Policy
+ *
+ * Ranks the entries to evict when the cache is over `maxEntries` or `maxCacheSize`.
+ * Entries are evicted lowest `priority` first, then lowest rank first, then least recently used first.
+ *
+ * @field name - A name for the policy, for debugging.
+ * @field rank - Rank an entry, the lowest ranked entries are evicted first.
+ * @field aging - Record the `inflation` of the entries, for ranks that grow with it.
+ */
+export interface EvictionPolicy {
+  name: string;
+  rank: (entry: EvictionCandidate) => number;
+  aging?: boolean;
+}
+
+/**
+ * Least recently used entries are evicted first. The default.
+ */
+export const lruPolicy: EvictionPolicy = {
+  name: "lru",
+  rank: ({ lastAccessed }) => lastAccessed,
+};
+
+/**
+ * Least frequently used entries are evicted first.
+ */
+export const lfuPolicy: EvictionPolicy = {
+  name: "lfu",
+  rank: ({ accessCount }) => accessCount,
+};
+
+/**
+ * First put entries are evicted first, however often they are accessed.
+ */
+export const fifoPolicy: EvictionPolicy = {
+  name: "fifo",
+  rank: ({ createdAt }) => createdAt,
+};
+
+/**
+ * Greedy-Dual-Size-Frequency: entries that are accessed the least per byte are evicted first,
+ * so that a few large files don't push out many small ones accessed as often.
+ *
+ * The inflation ages the entries: the ones put or hit since the last evictions rank above the ones
+ * that were only hit long ago, however many times.
+ */
+export const gdsfPolicy: EvictionPolicy = {
+  name: "gdsf",
+  // Put counts as an access, so that new entries aren't all ranked 0 whatever their size.
+  rank: ({ accessCount, size, inflation }) =>
+    inflation + (accessCount + 1) / Math.max(size, 1),
+  aging: true,
+};
@@ -1,52 +1,151 @@
-import z from "zod";
-
-const zodValueEntry = z.object({
-  filePath: z.string(),
-  lastAccessed: z.number().int().positive(),
-});
+import type { ZodType } from "zod";
+import { CacheIndex, CacheIndexEntry } from "./cache-index";
+import { CacheStats, KeyValueCacheStats } from "./cache-stats";
+import {
+  EvictionReason,
+  KeyValueCacheEvents,
+  KeyValueCacheListener,
+  MissReason,
+  TypedEventEmitter,
+} from "./events";
+import {
+  CacheClosedError,
+  CorruptEntryError,
+  FileMissingError,
+  FileUnlinkError,
+  KeyUnresolvableError,
+  KeyValueCacheError,
+  StoreDeleteError,
+  StoreWriteError,
+  UnknownVersionError,
+} from "./errors";
+import { lruPolicy } from "./eviction-policy";
+import { KeyedLock } from "./keyed-lock";
+import {
+  FileSystemAdapter,
+  GarbageCollectionOptions,
+  GarbageCollectionReport,
+  EvictionPlan,
+  EvictionPlanReport,
+  KeyValueCacheAdapter,
+  KeyValueCacheEntry,
+  KeyValueCacheLimits,
+  KeyValueCacheOptions,
+  KeyValueCacheParts,
+  KeyValueCacheState,
+  KeyValueStore,
+  MaintenanceReport,
+  PutItem,
+  PlannedEviction,
+  PutOptions,
+  RevalidationResult,
+  Revalidator,
+} from "./types";
+import {
+  DecodedValueEntry,
+  MigrationContext,
+  ValueEntry,
+  decodeValueEntry,
+  encodeValueEntry,
+  zodPutExpiry,
+} from "./value-entry";
+
+export * from "./types";
+export type { KeyValueCacheStats } from "./cache-stats";
+export type {
+  EvictionReason,
+  KeyValueCacheEvents,
+  KeyValueCacheListener,
+  MissReason,
+} from "./events";
+export { createAdapter } from "./adapters/create-adapter";
+export {
+  CacheClosedError,
+  CorruptEntryError,
+  FileMissingError,
+  FileUnlinkError,
+  KeyUnresolvableError,
+  KeyValueCacheError,
+  StoreDeleteError,
+  StoreWriteError,
+  UnknownVersionError,
+} from "./errors";
+export type { EvictionCandidate, EvictionPolicy } from "./eviction-policy";
+export {
+  fifoPolicy,
+  gdsfPolicy,
+  lfuPolicy,
+  lruPolicy,
+} from "./eviction-policy";
+
+const EVICTION_PASS = "eviction-pass";
+const DEFAULT_MAINTENANCE_BATCH_SIZE = 100;
+const DEFAULT_PERSIST_STATS_MILLIS = 10_000;
+
+// A put whose entry is built but not yet written.
+type PreparedPut = {
+  key: string;
+  newEntry: ValueEntry;
+  previousValue: string | null;
+  previousEntry: ValueEntry | null;
+  // Entries of newer versions aren't counted, corrupted ones were counted before they got corrupted.
+  isPreviousCounted: boolean;
+  keepPreviousFile: boolean;
+};
+
+// An entry found by a get, whose access is not recorded yet.
+type FoundEntry = {
+  valueEntry: ValueEntry;
+  isStale: boolean;
+  // Changed by the get itself, so it must be written back whatever the access write mode.
+  isChanged: boolean;
+};
+
+// An access not written to the store yet.
+type PendingAccess = {
+  lastAccessed: number;
+  accessCount: number;
+  inflation: number;
+  // The lastAccessed in the store, which throttled writes are measured from.
+  writtenAccess: number;
+};
+
+// What expiry needs, from either an entry or its index record.
+type ExpiryFields = {
+  lastAccessed: number;
+  ttlMillis?: number | null;
+  expiresAt?: number | null;
+};
+
+// The fields of a pending access that belong in the entry.
+function accessFieldsOf({
+  lastAccessed,
+  accessCount,
+  inflation,
+}: PendingAccess) {
+  return { lastAccessed, accessCount, inflation };
+}
 
-type ValueEntry = z.infer<typeof zodValueEntry>;
+function uniqueOf(keys: (string | null)[]) {
+  return [...new Set(keys.filter((key): key is string => key !== null))];
+}
 
 /**
- * KeyValue Cache Adapter
- *
- * This is the interface that the KeyValueCache class uses to interact with the underlying storage.
+ * Compatibility shim for flat adapters.
  *
- * @field prefix - The prefix to use for the keys.
- * @field evictionMillis - The time in milliseconds after which an entry is considered expired.
- * @field maxEntries - The maximum number of entries to store in the cache.
- * @field maxCacheSize - The maximum size of the cache in bytes.
- *
- * @field getValueForKey - Get the value for a given key.
- * @field setValueForKey - Set the value for a given key.
- * @field deleteKeyValue - Delete the value for a given key.
- * @field getAllKeys - Get all the keys in the cache.
- * @field getKeyFor - Get the key for a given key parameters.
- *
- * @field fileExists - Check if a file exists.
- * @field fileUnlink - Unlink a file.
- * @field fileSize - Get the size of a file.
- *
- * @template TKeyParams - The type of the key parameters.
+ * The adapter itself is used as each part, so changes made to it keep applying.
  */
-export interface KeyValueCacheAdapter<TKeyParams> {
-  // Props
-  prefix: string;
-  evictionMillis: number;
-  maxEntries: number;
-  maxCacheSize: number;
-
-  // KeyValue Adapter
-  getValueForKey(key: string): Promise<string | null>;
-  setValueForKey(key: string, value: string): Promise<boolean>;
-  deleteKeyValue(key: string): Promise<boolean>;
-  getAllKeys(): Promise<string[]>;
-  getKeyFor(params: TKeyParams): Promise<string | null>;
-
-  // File System Adapter
-  fileExists(path: string): Promise<boolean>;
-  fileUnlink(path: string): Promise<boolean>;
-  fileSize(path: string): Promise<number>;
+function fromFlatAdapter<TKeyParams, TMetadata>(
+  adapter: KeyValueCacheAdapter<TKeyParams, TMetadata>
+): KeyValueCacheParts<TKeyParams, TMetadata> {
+  return {
+    store: adapter,
+    files: adapter,
+    keyFor: params => adapter.getKeyFor(params),
+    options: adapter,
+    metadataSchema: adapter.metadataSchema,
+    revalidator: adapter.revalidator,
+  };
 }
 
 /**
@@ -55,136 +154,401 @@ export interface KeyValueCacheAdapter<TKeyParams> {
  * This is the class that is used to store and retrieve values from the cache.
  *
  * @template TKeyParams - The type of the key parameters.
+ * @template TMetadata - The type of the metadata of the entries.
  */
-export class KeyValueCache<TKeyParams> {
+export class KeyValueCache<TKeyParams, TMetadata = unknown> {
   private entriesCount: number = 0;
   private diskSize: number = 0;
-  private bootPromise: Promise<void>;
-  private isBooted: boolean = false;
+  private pinnedSize: number = 0;
+  private bootPromise: Promise<void> | null = null;
+  private currentState: KeyValueCacheState = "booting";
+  private closePromise: Promise<void> | null = null;
+  // The calls that started and haven't settled yet, which close waits for.
+  private callsInFlight = new Set<Promise<unknown>>();
+  private index: CacheIndex | null = null;
+  private indexWrite: Promise<void> = Promise.resolve();
+  // The index write waiting for its turn, which later changes join instead of queueing another one.
+  private queuedIndexWrite: Promise<void> | null = null;
+  // While batches are running, index changes are persisted once at the end instead.
+  private indexBatchDepth: number = 0;
+  private isIndexDirty: boolean = false;
+  // Hits only touch the index in memory, it is persisted along with the next index write, or by flush and close.
+  private hasUnpersistedHits: boolean = false;
+  // Serializes get, put, delete and evictions of the same key.
+  private readonly keyLock = new KeyedLock();
+  // Only one eviction pass runs at a time.
+  private readonly passLock = new KeyedLock();
+  private cleanUpPromise: Promise<void> | null = null;
+  private expiryPromise: Promise<boolean> | null = null;
+  private creating = new Map<string, Promise<string>>();
+  private readonly events = new TypedEventEmitter<KeyValueCacheEvents>();
+  private stats: CacheStats;
+  private statsWrite: Promise<void> | null = null;
+  private isStatsDirty: boolean = false;
+  // The file paths put while garbage is being collected, which must not be removed.
+  private collectingPaths: Set<string> | null = null;
+
+  private store: KeyValueStore;
+  private files: FileSystemAdapter;
+  private keyFor: (params: TKeyParams) => Promise<string | null>;
+  private options: KeyValueCacheOptions;
+  // Set by configure, kept apart so that changes made to a flat adapter keep applying to the other options.
+  private configuredLimits: Partial<KeyValueCacheLimits> = {};
+  private metadataSchema: ZodType<TMetadata> | undefined;
+  private revalidator: Revalidator<TKeyParams, TMetadata> | undefined;
+  private revalidating = new Map<string, Promise<boolean>>();
+  // Accesses not written to the store yet, by key.
+  private pendingAccesses = new Map<string, PendingAccess>();
+  // The rank of the last entry evicted for the limits, with an aging eviction policy.
+  private inflation: number = 0;
+  // The keys being put, evicted last so that a put isn't undone by its own eviction pass.
+  private puttingKeys = new Map<string, number>();
+  private accessFlushTimer: ReturnType<typeof setInterval> | null = null;
+  private statsTimer: ReturnType<typeof setInterval> | null = null;
+  private maintenancePromise: Promise<MaintenanceReport> | null = null;
+  private maintenanceTimer: ReturnType<typeof setInterval> | null = null;
+  private stopMaintenanceTrigger: (() => void) | null = null;
+  // The keys left to check in the current maintenance round.
+  private maintenanceKeys: string[] = [];
 
-  constructor(private adapter: KeyValueCacheAdapter<TKeyParams>) {
-    this.bootPromise = Promise.all([
-      this.getOurKeysCount().then(count => {
-        this.entriesCount = count;
-      }),
-      this.getOurDiskSize().then(size => {
-        this.diskSize = size;
-      }),
-    ]).then(() => {
-      this.isBooted = true;
-    });
+  /**
+   * @param adapter - Either a flat adapter, or its parts so that stores and file systems can be shared between caches.
+   */
+  constructor(
+    adapter:
+      | KeyValueCacheAdapter<TKeyParams, TMetadata>
+      | KeyValueCacheParts<TKeyParams, TMetadata>
+  ) {
+    const parts = "store" in adapter ? adapter : fromFlatAdapter(adapter);
+    this.store = parts.store;
+    this.files = parts.files;
+    this.keyFor = parts.keyFor;
+    this.options = parts.options;
+    this.metadataSchema = parts.metadataSchema;
+    this.revalidator = parts.revalidator;
+    this.stats = new CacheStats(this.now());
+
+    this.trackStats();
+    this.startAccessFlushes();
+    this.startStatsWrites();
+    this.startBoot();
+    this.startMaintenance();
   }
 
   /**
-   * Get the value for a given key params.
+   * Create a cache once it is booted.
    *
-   * @param params - The parameters to use to get the key.
-   * @returns A promise that resolves to the value for the given key params or null if the value can't be retrieved.
+   * @param adapter - Either a flat adapter, or its parts so that stores and file systems can be shared between caches.
+   * @returns A promise that resolves to the booted cache.
+   * @throws If booting fails, the cache is closed.
    */
-  async get(params: TKeyParams) {
-    await this.ensureBooted();
-    const key = await this.adapter.getKeyFor(params);
+  static async create<TKeyParams, TMetadata = unknown>(
+    adapter:
+      | KeyValueCacheAdapter<TKeyParams, TMetadata>
+      | KeyValueCacheParts<TKeyParams, TMetadata>
+  ): Promise<KeyValueCache<TKeyParams, TMetadata>> {
+    const cache = new KeyValueCache(adapter);
 
-    if (!key) {
-      return null;
+    try {
+      await cache.ready();
+    } catch (err) {
+      await cache.close();
+      throw err;
     }
 
-    const value = await this.adapter.getValueForKey(key);
+    return cache;
+  }
 
-    if (!value) {
-      return null;
-    }
+  get state(): KeyValueCacheState {
+    return this.currentState;
+  }
 
-    let valueEntry: ValueEntry;
-    try {
-      valueEntry = zodValueEntry.parse(JSON.parse(value));
-    } catch (err) {
-      const isDeleted = await this.adapter.deleteKeyValue(key);
-      if (isDeleted) {
-        this.safeDecrementEntriesCount();
+  /**
+   * Wait for the cache to be booted, booting it again if it failed to.
+   *
+   * @throws If booting fails, or the cache is closed.
+   */
+  async ready(): Promise<void> {
+    await this.ensureBooted();
+  }
+
+  /**
+   * Change the limits at runtime, evicting entries right away if they are lowered.
+   *
+   * @param limits - The limits to change, the others are kept.
+   */
+  async configure(limits: Partial<KeyValueCacheLimits>) {
+    return this.runCall(async () => {
+      const isEvictionShortened =
+        limits.evictionMillis !== undefined &&
+        limits.evictionMillis < this.getLimits().evictionMillis;
+      this.configuredLimits = { ...this.configuredLimits, ...limits };
+      await this.enforceLimits();
+
+      if (isEvictionShortened) {
+        // A pass in flight may have checked entries against the previous evictionMillis.
+        await this.expiryPromise;
+        await this.cleanExpired();
       }
-      // We can't decrement the diskSize because the JSON is corrupted.
+    });
+  }
 
-      return null;
-    }
+  /**
+   * Listen to a cache event.
+   *
+   * @param event - The event to listen to.
+   * @param listener - Called synchronously with the event payload.
+   * @returns A function that removes the listener.
+   */
+  on<TEvent extends keyof KeyValueCacheEvents>(
+    event: TEvent,
+    listener: KeyValueCacheListener<TEvent>
+  ) {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Stop listening to a cache event.
+   *
+   * @param event - The event to stop listening to.
+   * @param listener - The listener passed to `on`.
+   */
+  off<TEvent extends keyof KeyValueCacheEvents>(
+    event: TEvent,
+    listener: KeyValueCacheListener<TEvent>
+  ) {
+    this.events.off(event, listener);
+  }
 
-    const exists = await this.adapter.fileExists(valueEntry.filePath);
+  /**
+   * Get the value for a given key params.
+   *
+   * @param params - The parameters to use to get the key.
+   * @returns A promise that resolves to the value for the given key params or null if the value can't be retrieved.
+   */
+  async get(params: TKeyParams) {
+    return this.runCall(async () => {
+      const key = await this.keyFor(params);
 
-    if (!exists) {
-      const isDeleted = await this.adapter.deleteKeyValue(key);
-      if (isDeleted) {
-        this.safeDecrementEntriesCount();
+      if (!key) {
+        return this.miss(null, "unresolvable");
       }
-      // We can't decrement the diskSize because the file does not exist.
 
-      return null;
-    }
+      const found = await this.getAndRevalidate(key, params);
+      return found?.valueEntry.filePath ?? null;
+    });
+  }
 
-    const evictionThreshold = Date.now() - this.adapter.evictionMillis;
-    const cleaned = await this.cleanExpiredEntry(
-      key,
-      evictionThreshold,
-      valueEntry
-    );
+  /**
+   * Get the values for several key params at once.
+   *
+   * Uses the store batch methods when it has them. Like `get`, every entry found is an access.
+   *
+   * @param paramsList - The parameters to use to get the keys.
+   * @returns A promise that resolves to the value for each key params, in the same order, or null where it can't be retrieved.
+   */
+  async getMany(paramsList: TKeyParams[]): Promise<(string | null)[]> {
+    return this.runCall(async () => {
+      const keys = await Promise.all(
+        paramsList.map(params => this.keyFor(params))
+      );
+      const uniqueKeys = uniqueOf(keys);
+
+      const foundByKey = await this.keyLock.runMany(uniqueKeys, () =>
+        this.getManyByKeys(uniqueKeys)
+      );
+
+      return keys.map((key, i) => {
+        if (!key) {
+          return this.miss(null, "unresolvable");
+        }
 
-    if (cleaned) {
-      return null;
-    }
+        const found = foundByKey.get(key);
+        if (found?.isStale) {
+          // Failures leave the entry stale, the next access will try again.
+          this.revalidate(paramsList[i]).catch(() => undefined);
+        }
 
-    valueEntry.lastAccessed = Date.now();
+        return found?.valueEntry.filePath ?? null;
+      });
+    });
+  }
 
-    // No need to increment entriesCount or diskSize here, because we're just updating lastAccessed.
-    await this.adapter.setValueForKey(key, JSON.stringify(valueEntry));
+  /**
+   * Get the entry for a given key params, along with its metadata.
+   *
+   * Like `get`, it is an access that updates `lastAccessed`.
+   *
+   * @param params - The parameters to use to get the key.
+   * @returns A promise that resolves to the entry for the given key params or null if it can't be retrieved.
+   */
+  async getEntry(
+    params: TKeyParams
+  ): Promise<KeyValueCacheEntry<TMetadata> | null> {
+    return this.runCall(async () => {
+      const key = await this.keyFor(params);
+
+      if (!key) {
+        return this.miss(null, "unresolvable");
+      }
+
+      const found = await this.getAndRevalidate(key, params);
+
+      if (!found) {
+        return null;
+      }
 
-    return valueEntry.filePath;
+      const { filePath, metadata, lastAccessed, size } = found.valueEntry;
+      return {
+        filePath,
+        metadata: this.readMetadata(metadata),
+        lastAccessed,
+        size,
+        isStale: found.isStale,
+      };
+    });
   }
 
   /**
    * Put a value for a given key params and file path.
    *
+   * If the key already holds an entry, it is replaced: the entries count stays the same,
+   * and the previous file is unlinked (unless `keepPreviousFile` is set) when its path differs.
+   *
    * @param params - The parameters to use to get the key.
    * @param filePath - The file path to store the value.
+   * @param options - Options for the put operation.
    * @returns A promise that resolves to a boolean indicating if the value was put.
+   * @throws If `ttlMillis`, `expiresAt` or the metadata are invalid, before anything is put.
+   * @throws With `strict`, a `KeyUnresolvableError`, `FileMissingError` or `StoreWriteError` instead of resolving to false.
    */
-  async put(params: TKeyParams, filePath: string) {
-    await this.ensureBooted();
-    const key = await this.adapter.getKeyFor(params);
+  async put(
+    params: TKeyParams,
+    filePath: string,
+    options: PutOptions<TMetadata> = {}
+  ) {
+    return this.runCall(async () => {
+      const validOptions = this.validatePutOptions(options);
+      const key = await this.keyFor(params);
+
+      if (!key) {
+        return this.fail(new KeyUnresolvableError());
+      }
 
-    if (!key) {
-      return false;
-    }
+      // Without strict, a missing file is put with a size of 0.
+      if (this.options.strict && !(await this.files.fileExists(filePath))) {
+        return this.fail(new FileMissingError(key, filePath));
+      }
 
-    const newEntry: ValueEntry = {
-      filePath,
-      lastAccessed: Date.now(),
-    };
+      const isPut = await this.putAndEnforceLimits(key, filePath, validOptions);
 
-    const isSet = await this.adapter.setValueForKey(
-      key,
-      JSON.stringify(newEntry)
-    );
+      return isPut || this.fail(new StoreWriteError(key));
+    });
+  }
 
-    if (!isSet) {
-      return false;
-    }
+  /**
+   * Put several values at once.
+   *
+   * Uses the store batch methods when it has them, and evicts entries once, after all of them are put.
+   * When several items resolve to the same key, only the last one is put.
+   *
+   * @param items - The entries to put.
+   * @returns A promise that resolves to whether each item was put, in the same order.
+   * @throws If any `ttlMillis`, `expiresAt` or metadata are invalid, before anything is put.
+   */
+  async putMany(items: PutItem<TKeyParams, TMetadata>[]): Promise<boolean[]> {
+    return this.runCall(async () => {
+      const validItems = items.map(item => ({
+        ...item,
+        options: this.validatePutOptions(item.options ?? {}),
+      }));
+      const keys = await Promise.all(
+        items.map(({ params }) => this.keyFor(params))
+      );
+
+      const lastIndexByKey = new Map<string, number>();
+      for (const [i, key] of keys.entries()) {
+        if (key) {
+          lastIndexByKey.set(key, i);
+        }
+      }
 
-    this.entriesCount++;
+      const puts = [...lastIndexByKey].map(([key, i]) => ({
+        key,
+        filePath: validItems[i].filePath,
+        options: validItems[i].options,
+      }));
+      const putKeys = puts.map(({ key }) => key);
+      const isPutByKey = await this.whilePutting(putKeys, async () => {
+        const isPutByKey = await this.keyLock.runMany(putKeys, () =>
+          this.putManyByKeys(puts)
+        );
+
+        if ([...isPutByKey.values()].some(Boolean)) {
+          // Outside of the key locks, the eviction pass may need them.
+          await this.enforceLimits();
+        }
 
-    const exists = await this.adapter.fileExists(filePath);
-    if (exists) {
-      const fileSize = await this.adapter.fileSize(filePath);
-      this.diskSize += fileSize;
-    }
+        return isPutByKey;
+      });
 
-    if (this.entriesCount >= this.adapter.maxEntries) {
-      await this.cleanUpCount();
-    }
+      return keys.map(
+        (key, i) =>
+          key !== null &&
+          lastIndexByKey.get(key) === i &&
+          Boolean(isPutByKey.get(key))
+      );
+    });
+  }
 
-    if (this.diskSize >= this.adapter.maxCacheSize) {
-      await this.cleanUpDiskSize();
-    }
+  /**
+   * Get the file path for a given key params, creating it on a miss.
+   *
+   * Concurrent calls for the same key share a single producer run.
+   * If the producer fails, nothing is cached and the next call runs it again.
+   *
+   * @param params - The parameters to use to get the key.
+   * @param producer - Writes the file for the given key params and resolves to its path.
+   * @param options - Options for the put operation on a miss.
+   * @returns A promise that resolves to the cached or produced file path.
+   * @throws If `ttlMillis`, `expiresAt` or the metadata are invalid, before producing.
+   */
+  async getOrCreate(
+    params: TKeyParams,
+    producer: (params: TKeyParams) => Promise<string>,
+    options: PutOptions<TMetadata> = {}
+  ): Promise<string> {
+    return this.runCall(async () => {
+      // Before producing, the file would be wasted.
+      const validOptions = this.validatePutOptions(options);
+      const key = await this.keyFor(params);
+
+      if (!key) {
+        // Can't be cached, nor de-duplicated.
+        return producer(params);
+      }
 
-    return true;
+      const inFlight = this.creating.get(key);
+      if (inFlight) {
+        return inFlight;
+      }
+
+      const creation = this.getOrCreateByKey(
+        key,
+        params,
+        producer,
+        validOptions
+      );
+      this.creating.set(key, creation);
+
+      try {
+        return await creation;
+      } finally {
+        if (this.creating.get(key) === creation) {
+          this.creating.delete(key);
+        }
+      }
+    });
   }
 
   /**
@@ -192,206 +556,2055 @@ export class KeyValueCache<TKeyParams> {
    *
    * @param params - The parameters to use to get the key.
    * @returns A promise that resolves to a boolean indicating if the value was deleted.
+   * @throws With `strict`, a `KeyUnresolvableError`, `UnknownVersionError` or `StoreDeleteError` instead of resolving to false.
+   * There is nothing to throw when the key holds no entry.
    */
   async delete(params: TKeyParams) {
-    await this.ensureBooted();
-    const key = await this.adapter.getKeyFor(params);
+    return this.runCall(async () => {
+      const key = await this.keyFor(params);
+
+      if (!key) {
+        return this.fail(new KeyUnresolvableError());
+      }
+
+      return this.keyLock.run(key, () => this.deleteByKey(key));
+    });
+  }
+
+  /**
+   * Delete the values for several key params at once.
+   *
+   * Uses the store batch methods when it has them.
+   *
+   * @param paramsList - The parameters to use to get the keys.
+   * @returns A promise that resolves to whether each value was deleted, in the same order.
+   */
+  async deleteMany(paramsList: TKeyParams[]): Promise<boolean[]> {
+    return this.runCall(async () => {
+      const keys = await Promise.all(
+        paramsList.map(params => this.keyFor(params))
+      );
+      const uniqueKeys = uniqueOf(keys);
+
+      const isDeletedByKey = await this.keyLock.runMany(uniqueKeys, () =>
+        this.deleteManyByKeys(uniqueKeys)
+      );
+
+      return keys.map(key => key !== null && Boolean(isDeletedByKey.get(key)));
+    });
+  }
+
+  /**
+   * Pin an entry, so that it is never evicted, only deleted.
+   *
+   * @param params - The parameters to use to get the key.
+   * @returns A promise that resolves to a boolean indicating if the entry exists and is pinned.
+   * @throws With `strict`, a `KeyUnresolvableError`, `CorruptEntryError`, `UnknownVersionError` or `StoreWriteError` instead of resolving to false.
+   */
+  async pin(params: TKeyParams) {
+    return this.runCall(() => this.setPinned(params, true));
+  }
+
+  /**
+   * Unpin an entry, evicting entries right away if the cache is over its limits.
+   *
+   * @param params - The parameters to use to get the key.
+   * @returns A promise that resolves to a boolean indicating if the entry exists and is unpinned.
+   * @throws With `strict`, the same errors as `pin`.
+   */
+  async unpin(params: TKeyParams) {
+    return this.runCall(async () => {
+      const isUnpinned = await this.setPinned(params, false);
+      if (isUnpinned) {
+        await this.enforceLimits();
+      }
+      return isUnpinned;
+    });
+  }
+
+  private async setPinned(params: TKeyParams, pinned: boolean) {
+    const key = await this.keyFor(params);
 
     if (!key) {
-      return false;
+      return this.fail(new KeyUnresolvableError());
     }
 
-    const value = await this.adapter.getValueForKey(key);
+    return this.keyLock.run(key, () => this.setPinnedByKey(key, pinned));
+  }
 
-    if (!value) {
-      return false;
+  private async getOrCreateByKey(
+    key: string,
+    params: TKeyParams,
+    producer: (params: TKeyParams) => Promise<string>,
+    options: PutOptions<TMetadata>
+  ) {
+    const cached = await this.getAndRevalidate(key, params);
+
+    if (cached) {
+      return cached.valueEntry.filePath;
     }
 
-    const isDeleted = await this.adapter.deleteKeyValue(key);
+    const filePath = await producer(params);
+    // Even if it can't be cached, the file was produced.
+    await this.putAndEnforceLimits(key, filePath, options);
+    return filePath;
+  }
 
-    if (!isDeleted) {
-      return false;
-    }
+  /**
+   * @param putUnderLock - What to put under the key lock, `putByKey` by default.
+   */
+  private async putAndEnforceLimits(
+    key: string,
+    filePath: string,
+    options: PutOptions<TMetadata>,
+    putUnderLock = () => this.putByKey(key, filePath, options)
+  ) {
+    return this.whilePutting([key], async () => {
+      const isPut = await this.keyLock.run(key, putUnderLock);
+
+      if (isPut) {
+        // Outside of the key lock, the eviction pass may need it.
+        await this.enforceLimits();
+      }
 
-    this.safeDecrementEntriesCount();
+      return isPut;
+    });
+  }
 
-    if (!value) {
-      return true;
-      // We can't decrement the diskSize because the value is falsy.
+  /**
+   * Runs a put and the eviction pass it starts, during which the keys being put are evicted last.
+   */
+  private async whilePutting<T>(keys: string[], operation: () => Promise<T>) {
+    for (const key of keys) {
+      this.puttingKeys.set(key, (this.puttingKeys.get(key) ?? 0) + 1);
     }
 
     try {
-      const { filePath } = zodValueEntry.parse(JSON.parse(value));
-      await this.tryDecrementDiskSize(filePath);
-    } catch (err) {
-      // Do nothing
-      // We can't decrement the diskSize because the JSON is corrupted.
+      return await operation();
+    } finally {
+      for (const key of keys) {
+        const count = this.puttingKeys.get(key) ?? 0;
+        if (count > 1) {
+          this.puttingKeys.set(key, count - 1);
+        } else {
+          this.puttingKeys.delete(key);
+        }
+      }
     }
-
-    return true;
   }
 
   /**
-   * Clean up expired entries.
+   * Refresh a stale entry with the revalidator right away.
    *
-   * This method is used to clean up expired entries from the cache.
+   * Concurrent calls for the same key share a single revalidator run.
    *
-   * @returns A promise that resolves to a boolean indicating if any entries were cleaned up.
+   * @param params - The parameters to use to get the key.
+   * @returns A promise that resolves to a boolean indicating if the entry was refreshed or replaced.
    */
-  async cleanExpiredEntries(): Promise<boolean> {
-    await this.ensureBooted();
-    const ourKeyValues = await this.getAllByOldestFirst();
-    const evictionThreshold = Date.now() - this.adapter.evictionMillis;
-    const promises: Promise<boolean>[] = [];
+  async revalidate(params: TKeyParams): Promise<boolean> {
+    return this.runCall(async () => {
+      const key = await this.keyFor(params);
 
-    for (const { key, valueEntry } of ourKeyValues) {
-      promises.push(this.cleanExpiredEntry(key, evictionThreshold, valueEntry));
-    }
+      if (!key || !this.revalidator) {
+        return false;
+      }
+
+      const inFlight = this.revalidating.get(key);
+      if (inFlight) {
+        return inFlight;
+      }
+
+      const revalidation = this.revalidateByKey(key, params, this.revalidator);
+      this.revalidating.set(key, revalidation);
 
-    const cleaned = await Promise.all(promises);
-    return cleaned.some(cleaned => cleaned);
+      try {
+        return await revalidation;
+      } finally {
+        if (this.revalidating.get(key) === revalidation) {
+          this.revalidating.delete(key);
+        }
+      }
+    });
   }
 
-  private async cleanUpCount() {
-    await this.ensureBooted();
-    const countToClean = this.entriesCount - this.adapter.maxEntries;
+  private async revalidateByKey(
+    key: string,
+    params: TKeyParams,
+    revalidator: Revalidator<TKeyParams, TMetadata>
+  ) {
+    const decoded = await this.keyLock.run(key, () => this.readOurEntry(key));
 
-    if (countToClean <= 0) {
-      return;
+    if (decoded?.status !== "ok") {
+      return false;
     }
 
-    const ourKeyValues = await this.getAllByOldestFirst();
-    const evictionThreshold = Date.now() - this.adapter.evictionMillis;
-
-    for (const { key, valueEntry } of ourKeyValues) {
-      if (this.entriesCount <= this.adapter.maxEntries) {
-        break;
-      }
+    const { filePath, validators, metadata } = decoded.valueEntry;
+    // Outside of the key lock, it may take a network round trip.
+    const result = await revalidator({
+      params,
+      key,
+      filePath,
+      validators,
+      metadata: this.readMetadata(metadata),
+    });
 
-      await this.cleanExpiredEntry(key, evictionThreshold, valueEntry);
+    if (result.status === "modified") {
+      const options = this.validatePutOptions({
+        validators: result.validators,
+        expiresAt: result.expiresAt,
+        metadata: result.metadata ?? this.readMetadata(metadata),
+      });
+      return this.putAndEnforceLimits(key, result.filePath, options, () =>
+        this.replaceRevalidatedByKey(key, filePath, result.filePath, options)
+      );
     }
-  }
 
-  async getCurrentEntriesCount() {
-    await this.ensureBooted();
-    return this.entriesCount;
+    return this.keyLock.run(key, () =>
+      this.refreshByKey(key, filePath, result)
+    );
   }
 
-  async getCurrentDiskSize() {
-    await this.ensureBooted();
-    return this.diskSize;
+  /**
+   * Puts the modified file of a revalidated entry, unless the entry was replaced or deleted while revalidating.
+   */
+  private async replaceRevalidatedByKey(
+    key: string,
+    staleFilePath: string,
+    filePath: string,
+    options: PutOptions<TMetadata>
+  ) {
+    const decoded = await this.readOurEntry(key);
+
+    if (
+      decoded?.status !== "ok" ||
+      decoded.valueEntry.filePath !== staleFilePath
+    ) {
+      return false;
+    }
+
+    // Like a refresh, it keeps the time to live of the entry.
+    return this.putByKey(key, filePath, {
+      ...options,
+      ttlMillis: decoded.valueEntry.ttlMillis,
+    });
   }
 
-  private async cleanUpDiskSize() {
-    await this.ensureBooted();
-    const sizeToClean = this.diskSize - this.adapter.maxCacheSize;
+  private async refreshByKey(
+    key: string,
+    filePath: string,
+    result: Extract<RevalidationResult, { status: "not-modified" }>
+  ) {
+    const decoded = await this.readOurEntry(key);
 
-    if (sizeToClean <= 0) {
-      return;
+    if (decoded?.status !== "ok" || decoded.valueEntry.filePath !== filePath) {
+      // Replaced or deleted while revalidating.
+      return false;
     }
 
-    const ourKeyValues = await this.getAllByOldestFirst();
-    const evictionThreshold = Date.now() - this.adapter.evictionMillis;
+    const valueEntry: ValueEntry = {
+      ...decoded.valueEntry,
+      lastAccessed: this.now(),
+      validators: result.validators ?? decoded.valueEntry.validators,
+      expiresAt: result.expiresAt,
+    };
 
-    for (const { key, valueEntry } of ourKeyValues) {
-      if (this.diskSize <= this.adapter.maxCacheSize) {
-        break;
-      }
+    const isSet = await this.store.setValueForKey(
+      key,
+      encodeValueEntry(valueEntry)
+    );
 
-      await this.cleanExpiredEntry(key, evictionThreshold, valueEntry);
+    if (isSet) {
+      await this.touchIndex(key, valueEntry);
     }
-  }
-
-  private async cleanExpiredEntry(
-    key: string,
-    evictionThreshold: number,
-    valueEntry: ValueEntry
-  ): Promise<boolean> {
-    if (valueEntry.lastAccessed < evictionThreshold) {
-      const { filePath } = valueEntry;
 
-      const isDeleted = await this.adapter.deleteKeyValue(key);
+    return isSet;
+  }
 
-      if (!isDeleted) {
-        return false;
-      }
+  /**
+   * Gets an entry, revalidating it in the background if it is stale.
+   */
+  private async getAndRevalidate(key: string, params: TKeyParams) {
+    const found = await this.keyLock.run(key, () => this.getByKey(key));
 
-      this.safeDecrementEntriesCount();
-      await this.tryDecrementDiskSize(filePath);
-      return true;
+    if (found?.isStale) {
+      // Failures leave the entry stale, the next access will try again.
+      this.revalidate(params).catch(() => undefined);
     }
 
-    return false;
+    return found;
   }
 
-  private async getOurKeys() {
-    const allKeys = await this.adapter.getAllKeys();
-    return allKeys.filter(key => key.startsWith(this.adapter.prefix));
-  }
+  private async getByKey(key: string) {
+    const value = await this.store.getValueForKey(key);
+    const found = await this.resolveEntry(key, value);
+
+    if (found) {
+      await this.recordHits(new Map([[key, found]]));
+    }
 
-  private async getOurKeysCount() {
-    return (await this.getOurKeys()).length;
+    return found;
   }
 
-  private async getOurDiskSize() {
-    const ourKeys = await this.getOurKeys();
+  private async getManyByKeys(keys: string[]) {
+    return this.withBatchedIndexWrites(async () => {
+      const values = await this.getValues(keys);
+      const foundByKey = new Map<string, FoundEntry>();
+
+      for (const [i, key] of keys.entries()) {
+        const found = await this.resolveEntry(key, values[i]);
+        if (found) {
+          foundByKey.set(key, found);
+        }
+      }
+
+      await this.recordHits(foundByKey);
+      return foundByKey;
+    });
+  }
+
+  /**
+   * Validates the stored value of a key, removing it if it is no longer valid.
+   *
+   * @returns The entry found, or null on a miss.
+   */
+  private async resolveEntry(
+    key: string,
+    value: string | null
+  ): Promise<FoundEntry | null> {
+    if (!value) {
+      return this.miss(key, "not-found");
+    }
+
+    const decoded = await this.readValueEntry(key, value);
+
+    if (decoded.status === "unknown-version") {
+      // Written by a newer version of the library, leave it alone.
+      return this.miss(key, "unknown-version");
+    }
+
+    if (decoded.status === "corrupt") {
+      await this.deleteCorruptEntry(key);
+      return this.miss(key, "corrupt");
+    }
+
+    const { valueEntry } = decoded;
+    const exists = await this.files.fileExists(valueEntry.filePath);
+
+    if (!exists) {
+      await this.deleteOrphanEntry(key, valueEntry);
+      return this.miss(key, "file-missing", valueEntry);
+    }
+
+    const cleaned = await this.cleanExpiredEntry(key, this.now(), valueEntry);
+
+    if (cleaned) {
+      return this.miss(key, "expired", valueEntry);
+    }
+
+    const wasVerified = Boolean(valueEntry.isVerified);
+    const isIntact = await this.verifyEntry(valueEntry);
+
+    if (!isIntact) {
+      await this.evictEntry(key, valueEntry, "integrity");
+      return this.miss(key, "integrity", valueEntry);
+    }
+
+    return {
+      valueEntry,
+      isStale: this.isExpired(valueEntry, this.now()),
+      isChanged: Boolean(valueEntry.isVerified) !== wasVerified,
+    };
+  }
+
+  /**
+   * Updates the `lastAccessed` of found entries, writing them back according to `accessWrite`.
+   * Accesses that aren't written are kept in memory until flushed. Either way, the index is only touched in memory.
+   */
+  private async recordHits(foundByKey: Map<string, FoundEntry>) {
+    const now = this.now();
+    const writes: [string, string][] = [];
+    const writtenKeys = new Set<string>();
+
+    for (const [key, { valueEntry, isStale, isChanged }] of foundByKey) {
+      // Only revalidation refreshes a stale entry, accessing it would make it fresh again.
+      const isAccessed = !isStale;
+      const writtenAccess =
+        this.pendingAccesses.get(key)?.writtenAccess ?? valueEntry.lastAccessed;
+      if (isAccessed) {
+        valueEntry.lastAccessed = now;
+        valueEntry.accessCount = (valueEntry.accessCount ?? 0) + 1;
+        this.inflate(valueEntry);
+      }
+
+      if (
+        isChanged ||
+        (isAccessed && this.isAccessWritten(writtenAccess, now))
+      ) {
+        writes.push([key, encodeValueEntry(valueEntry)]);
+        writtenKeys.add(key);
+      } else if (isAccessed) {
+        this.pendingAccesses.set(key, {
+          lastAccessed: now,
+          accessCount: valueEntry.accessCount ?? 0,
+          inflation: valueEntry.inflation ?? 0,
+          writtenAccess,
+        });
+      }
+    }
+
+    // No need to increment entriesCount or diskSize here, because we're just updating lastAccessed.
+    await this.setValues(writes);
+
+    for (const [key, { valueEntry, isStale }] of foundByKey) {
+      if (writtenKeys.has(key)) {
+        this.pendingAccesses.delete(key);
+      }
+
+      if (this.index && (writtenKeys.has(key) || !isStale)) {
+        this.index.touch(key, this.toIndexEntry(valueEntry));
+        this.hasUnpersistedHits = true;
+      }
+
+      const { filePath, size } = valueEntry;
+      this.events.emit("hit", { key, filePath, size, isStale });
+    }
+  }
+
+  private isAccessWritten(writtenAccess: number, now: number) {
+    switch (this.options.accessWrite ?? "immediate") {
+      case "immediate":
+        return true;
+      case "throttled":
+        return now - writtenAccess >= (this.options.accessWriteMillis ?? 0);
+      case "buffered":
+        return false;
+    }
+  }
+
+  /**
+   * @throws If `ttlMillis` isn't a non-negative integer, `expiresAt` a positive integer,
+   * or the metadata doesn't match `metadataSchema`.
+   */
+  private validatePutOptions(
+    options: PutOptions<TMetadata>
+  ): PutOptions<TMetadata> {
+    zodPutExpiry.parse(options);
+
+    if (options.metadata === undefined || !this.metadataSchema) {
+      return options;
+    }
+
+    return {
+      ...options,
+      metadata: this.metadataSchema.parse(options.metadata),
+    };
+  }
+
+  /**
+   * Stored metadata may have been put with a different schema, by another version of the app.
+   */
+  private readMetadata(metadata: unknown): TMetadata | undefined {
+    if (metadata === undefined || !this.metadataSchema) {
+      return metadata as TMetadata | undefined;
+    }
+
+    const parsed = this.metadataSchema.safeParse(metadata);
+    return parsed.success ? parsed.data : undefined;
+  }
+
+  private miss(
+    key: string | null,
+    reason: MissReason,
+    valueEntry?: ValueEntry
+  ): null {
+    this.events.emit("miss", {
+      key,
+      filePath: valueEntry?.filePath ?? null,
+      size: valueEntry?.size ?? null,
+      reason,
+    });
+    return null;
+  }
+
+  private async putByKey(
+    key: string,
+    filePath: string,
+    options: PutOptions<TMetadata>
+  ) {
+    const previousValue = await this.store.getValueForKey(key);
+    const put = await this.preparePut(key, filePath, options, previousValue);
+
+    const isSet = await this.store
+      .setValueForKey(key, encodeValueEntry(put.newEntry))
+      .catch(err =>
+        this.rethrow(err, new StoreWriteError(key, { cause: err }))
+      );
+
+    return this.commitPut(put, isSet);
+  }
+
+  private async putManyByKeys(
+    puts: { key: string; filePath: string; options: PutOptions<TMetadata> }[]
+  ) {
+    return this.withBatchedIndexWrites(async () => {
+      const previousValues = await this.getValues(puts.map(({ key }) => key));
+
+      const prepared: PreparedPut[] = [];
+      for (const [i, { key, filePath, options }] of puts.entries()) {
+        prepared.push(
+          await this.preparePut(key, filePath, options, previousValues[i])
+        );
+      }
+
+      const isSet = await this.setValues(
+        prepared.map(({ key, newEntry }) => [key, encodeValueEntry(newEntry)])
+      );
+
+      const isPutByKey = new Map<string, boolean>();
+      for (const [i, put] of prepared.entries()) {
+        isPutByKey.set(put.key, await this.commitPut(put, isSet[i]));
+      }
+      return isPutByKey;
+    });
+  }
+
+  /**
+   * Builds the entry to put, replacing the given previous value.
+   */
+  private async preparePut(
+    key: string,
+    filePath: string,
+    options: PutOptions<TMetadata>,
+    previousValue: string | null
+  ): Promise<PreparedPut> {
+    this.collectingPaths?.add(filePath);
+
+    const previousDecoded = previousValue
+      ? await this.readValueEntry(key, previousValue)
+      : null;
+    const previousEntry =
+      previousDecoded?.status === "ok" ? previousDecoded.valueEntry : null;
+
+    const now = this.now();
+    const newEntry: ValueEntry = {
+      filePath,
+      lastAccessed: now,
+      size: await this.getFileSizeIfExists(filePath),
+      createdAt: now,
+      fingerprint: options.fingerprint ?? (await this.getFingerprint(filePath)),
+      pinned: options.pinned ?? previousEntry?.pinned,
+      priority: options.priority ?? previousEntry?.priority,
+      // Expiry belongs to the file, not to the key, so it isn't carried over.
+      ttlMillis: options.ttlMillis,
+      expiresAt: options.expiresAt,
+      metadata: options.metadata,
+      validators: options.validators,
+    };
+    this.inflate(newEntry);
+
+    return {
+      key,
+      newEntry,
+      previousValue,
+      previousEntry,
+      isPreviousCounted:
+        previousDecoded !== null &&
+        previousDecoded.status !== "unknown-version",
+      keepPreviousFile: Boolean(options.keepPreviousFile),
+    };
+  }
+
+  /**
+   * Accounts for a prepared entry once it is written.
+   *
+   * @returns Whether it was written.
+   */
+  private async commitPut(
+    {
+      key,
+      newEntry,
+      previousValue,
+      previousEntry,
+      isPreviousCounted,
+      keepPreviousFile,
+    }: PreparedPut,
+    isSet: boolean
+  ) {
+    const { filePath } = newEntry;
+
+    if (!isSet) {
+      this.events.emit("error", {
+        key,
+        filePath,
+        size: newEntry.size,
+        operation: "store-write",
+      });
+      return false;
+    }
+
+    // With an index, it is the source of truth for what we are counting.
+    const isNewEntry = this.index ? !this.index.get(key) : !isPreviousCounted;
+    if (isNewEntry) {
+      this.entriesCount++;
+    }
+
+    if (previousEntry) {
+      const isSameFile = previousEntry.filePath === filePath;
+
+      if (isSameFile || keepPreviousFile) {
+        // Either the file was rewritten in place, or the caller still owns the previous file.
+        this.safeDecrementDiskSize(previousEntry.size);
+      } else {
+        await this.tryDecrementDiskSize(key, previousEntry);
+      }
+      this.safeDecrementPinnedSize(previousEntry);
+    } else if (previousValue) {
+      // Only the index still knows the size of a corrupted entry.
+      this.safeDecrementDiskSize(this.index?.get(key)?.size ?? 0);
+      this.safeDecrementPinnedSize(this.index?.get(key));
+    }
+
+    this.diskSize += newEntry.size;
+    if (newEntry.pinned) {
+      this.pinnedSize += newEntry.size;
+    }
+    await this.touchIndex(key, newEntry);
+
+    this.events.emit("put", {
+      key,
+      filePath,
+      size: newEntry.size,
+      isReplaced: Boolean(previousValue),
+    });
+
+    return true;
+  }
+
+  private async setPinnedByKey(key: string, pinned: boolean) {
+    const decoded = await this.readOurEntry(key);
+
+    if (!decoded) {
+      return false;
+    }
+
+    if (decoded.status === "corrupt") {
+      return this.fail(new CorruptEntryError(key));
+    }
+
+    if (decoded.status === "unknown-version") {
+      return this.fail(new UnknownVersionError(key));
+    }
+
+    const { valueEntry } = decoded;
+
+    if (Boolean(valueEntry.pinned) === pinned) {
+      return true;
+    }
+
+    const isSet = await this.store
+      .setValueForKey(key, encodeValueEntry({ ...valueEntry, pinned }))
+      .catch(err =>
+        this.rethrow(err, new StoreWriteError(key, { cause: err }))
+      );
+
+    if (!isSet) {
+      this.events.emit("error", {
+        key,
+        filePath: valueEntry.filePath,
+        size: valueEntry.size,
+        operation: "store-write",
+      });
+      return this.fail(new StoreWriteError(key));
+    }
+
+    if (pinned) {
+      this.pinnedSize += valueEntry.size;
+    } else {
+      this.safeDecrementPinnedSize(valueEntry);
+    }
+
+    if (this.index) {
+      // Pinning is not an access, the entry keeps its place in the LRU ordering.
+      this.index.update(key, this.toIndexEntry({ ...valueEntry, pinned }));
+      await this.persistIndex();
+    }
+
+    return true;
+  }
+
+  private async deleteByKey(key: string) {
+    const value = await this.store.getValueForKey(key);
+
+    if (!value) {
+      return false;
+    }
+
+    // Not written back when migrated, since the key is about to be deleted.
+    const decoded = await decodeValueEntry(value, this.migrationContext);
+
+    if (decoded.status === "unknown-version") {
+      // Written by a newer version of the library, we can't tell which file to unlink.
+      return this.fail(new UnknownVersionError(key));
+    }
+
+    const isDeleted =
+      decoded.status === "corrupt"
+        ? await this.deleteCorruptEntry(key)
+        : await this.evictEntry(key, decoded.valueEntry, "manual");
+
+    return isDeleted || this.fail(new StoreDeleteError(key));
+  }
+
+  private async deleteManyByKeys(keys: string[]) {
+    return this.withBatchedIndexWrites(async () => {
+      const values = await this.getValues(keys);
+
+      // A null entry is a corrupted one.
+      const targets: { key: string; valueEntry: ValueEntry | null }[] = [];
+      for (const [i, key] of keys.entries()) {
+        const value = values[i];
+        if (!value) {
+          continue;
+        }
+
+        // Not written back when migrated, since the key is about to be deleted.
+        const decoded = await decodeValueEntry(value, this.migrationContext);
+
+        if (decoded.status === "unknown-version") {
+          // Written by a newer version of the library, we can't tell which file to unlink.
+          continue;
+        }
+
+        targets.push({
+          key,
+          valueEntry: decoded.status === "ok" ? decoded.valueEntry : null,
+        });
+      }
+
+      const isDeleted = await this.deleteValues(targets.map(({ key }) => key));
+
+      const isDeletedByKey = new Map<string, boolean>();
+      for (const [i, { key, valueEntry }] of targets.entries()) {
+        if (!isDeleted[i]) {
+          this.emitDeleteError(key, valueEntry ?? undefined);
+        } else if (valueEntry) {
+          await this.afterEvict(key, valueEntry, "manual");
+        } else {
+          await this.afterDeleteCorrupt(key);
+        }
+        isDeletedByKey.set(key, isDeleted[i]);
+      }
+      return isDeletedByKey;
+    });
+  }
+
+  /**
+   * Clean up expired entries.
+   *
+   * This method is used to clean up expired entries from the cache.
+   *
+   * @returns A promise that resolves to a boolean indicating if any entries were cleaned up.
+   */
+  async cleanExpiredEntries(): Promise<boolean> {
+    return this.runCall(() => this.cleanExpired());
+  }
+
+  private async cleanExpired() {
+    // Single flight, callers during a pass share its result.
+    if (!this.expiryPromise) {
+      const pass = this.passLock.run(EVICTION_PASS, () =>
+        this.cleanExpiredEntriesPass()
+      );
+      this.expiryPromise = pass;
+      void pass.then(
+        () => this.clearExpiryPromise(pass),
+        () => this.clearExpiryPromise(pass)
+      );
+    }
+
+    return this.expiryPromise;
+  }
+
+  private clearExpiryPromise(pass: Promise<boolean>) {
+    if (this.expiryPromise === pass) {
+      this.expiryPromise = null;
+    }
+  }
+
+  /**
+   * List the entries that would be evicted under the given limits, without evicting anything.
+   *
+   * Expired entries come first, then the entries over `maxEntries`, then those over `maxCacheSize`,
+   * each in eviction order. Pinned entries are never planned.
+   *
+   * @param limits - The limits to plan for, defaulting to the current ones.
+   * @returns A promise that resolves to the plan, which `applyPlan` can execute.
+   */
+  async planEviction(
+    limits: Partial<KeyValueCacheLimits> = {}
+  ): Promise<EvictionPlan> {
+    return this.runCall(async () => {
+      const { evictionMillis, maxEntries, maxCacheSize } = {
+        ...this.getLimits(),
+        ...limits,
+      };
+      const now = this.now();
+      const listed = await this.getAllByOldestFirst(true);
+
+      const evictions: PlannedEviction[] = [];
+      let entriesCount = this.entriesCount;
+      let diskSize = this.diskSize;
+      const plan = (
+        { key, valueEntry }: { key: string; valueEntry: ValueEntry },
+        reason: EvictionReason
+      ) => {
+        const { filePath, size, lastAccessed } = valueEntry;
+        evictions.push({ key, filePath, size, lastAccessed, reason });
+        entriesCount--;
+        diskSize -= size;
+      };
+
+      const notExpired = listed.filter(entry => {
+        const isExpired =
+          !entry.valueEntry.pinned &&
+          this.isPastStaleWindow(entry.valueEntry, now, evictionMillis);
+        if (isExpired) {
+          plan(entry, "expired");
+        }
+        return !isExpired;
+      });
+
+      for (const entry of this.sortByEvictionOrder(notExpired)) {
+        if (entriesCount > maxEntries) {
+          plan(entry, "count");
+        } else if (diskSize > maxCacheSize) {
+          plan(entry, "size");
+        } else {
+          break;
+        }
+      }
+
+      return { evictions, entriesCount, diskSize };
+    });
+  }
+
+  /**
+   * Evict the entries of a plan made by `planEviction`.
+   *
+   * Entries accessed, replaced or removed since the plan was made are left alone.
+   * The limits the plan was made for are not applied to the cache, `configure` it to keep it under them.
+   *
+   * @param plan - The plan to execute.
+   * @returns A promise that resolves to what was evicted, skipped, and failed to be deleted.
+   */
+  async applyPlan(plan: EvictionPlan): Promise<EvictionPlanReport> {
+    return this.runCall(async () => {
+      return this.passLock.run(EVICTION_PASS, () => this.applyPlanPass(plan));
+    });
+  }
+
+  private async applyPlanPass({ evictions }: EvictionPlan) {
+    const report: EvictionPlanReport = {
+      evicted: [],
+      skipped: [],
+      failed: [],
+      bytesFreed: 0,
+    };
+
+    for (const { key, filePath, lastAccessed, reason } of evictions) {
+      await this.keyLock.run(key, async () => {
+        const decoded = await this.readOurEntry(key);
+
+        if (
+          decoded?.status !== "ok" ||
+          decoded.valueEntry.filePath !== filePath ||
+          decoded.valueEntry.lastAccessed !== lastAccessed
+        ) {
+          report.skipped.push(key);
+          return;
+        }
+
+        const { valueEntry } = decoded;
+        const error = await this.evictPlanned(key, valueEntry, reason);
+        if (error) {
+          report.failed.push({ key, error });
+        } else {
+          report.evicted.push(key);
+          report.bytesFreed += valueEntry.size;
+        }
+      });
+    }
+
+    return report;
+  }
+
+  /**
+   * Evicts an entry of a plan, catching the failures so that the rest of the plan still runs.
+   *
+   * @returns The error if the entry or its file is left.
+   */
+  private async evictPlanned(
+    key: string,
+    valueEntry: ValueEntry,
+    reason: EvictionReason
+  ): Promise<KeyValueCacheError | null> {
+    try {
+      if (!(await this.tryDeleteKeyValue(key, valueEntry))) {
+        return new StoreDeleteError(key);
+      }
+    } catch (err) {
+      return err instanceof StoreDeleteError
+        ? err
+        : new StoreDeleteError(key, { cause: err });
+    }
+
+    return this.afterEvict(key, valueEntry, reason);
+  }
+
+  /**
+   * Check the next batch of entries, removing those that are expired or whose file is missing,
+   * then evict entries if the cache is over its limits.
+   *
+   * Each run picks up where the previous one stopped, checking at most `maintenanceBatchSize` entries,
+   * so that it never blocks for long. Concurrent calls share a single run.
+   *
+   * @returns A promise that resolves to what the run checked and removed.
+   */
+  async runMaintenance(): Promise<MaintenanceReport> {
+    return this.runCall(async () => {
+      if (!this.maintenancePromise) {
+        const run = this.passLock
+          .run(EVICTION_PASS, () => this.maintenancePass())
+          .then(async report => {
+            // Outside of the pass lock, the eviction pass needs it.
+            await this.enforceLimits();
+            return report;
+          });
+        this.maintenancePromise = run;
+        void run.then(
+          () => this.clearMaintenancePromise(run),
+          () => this.clearMaintenancePromise(run)
+        );
+      }
+
+      return this.maintenancePromise;
+    });
+  }
+
+  private clearMaintenancePromise(run: Promise<MaintenanceReport>) {
+    if (this.maintenancePromise === run) {
+      this.maintenancePromise = null;
+    }
+  }
+
+  private async maintenancePass(): Promise<MaintenanceReport> {
+    if (this.maintenanceKeys.length === 0) {
+      this.maintenanceKeys = this.index
+        ? this.index.keysByOldestFirst()
+        : await this.getOurKeys();
+    }
+
+    const batch = this.maintenanceKeys.splice(
+      0,
+      this.options.maintenanceBatchSize ?? DEFAULT_MAINTENANCE_BATCH_SIZE
+    );
+    const now = this.now();
+    const removedEntries: string[] = [];
+
+    for (const key of batch) {
+      await this.keyLock.run(key, async () => {
+        const decoded = await this.readOurEntry(key);
+
+        if (decoded?.status !== "ok") {
+          // Gone, corrupted and deleted, or written by a newer version.
+          return;
+        }
+
+        const { valueEntry } = decoded;
+        const exists = await this.files.fileExists(valueEntry.filePath);
+        const isRemoved = exists
+          ? await this.cleanExpiredEntry(key, now, valueEntry)
+          : await this.deleteOrphanEntry(key, valueEntry);
+
+        if (isRemoved) {
+          removedEntries.push(key);
+        }
+      });
+    }
+
+    return {
+      checkedEntries: batch.length,
+      removedEntries,
+      isRoundDone: this.maintenanceKeys.length === 0,
+    };
+  }
+
+  private startMaintenance() {
+    const { maintenanceMillis, maintenanceTrigger } = this.options;
+    const run = () => {
+      // Failures are left for the next run.
+      this.runMaintenance().catch(() => undefined);
+    };
+
+    if (maintenanceMillis) {
+      this.maintenanceTimer = setInterval(run, maintenanceMillis);
+      // Don't keep a Node.js process alive just for maintenance.
+      (this.maintenanceTimer as { unref?: () => void }).unref?.();
+    }
+
+    if (maintenanceTrigger) {
+      this.stopMaintenanceTrigger = maintenanceTrigger(run);
+    }
+  }
+
+  /**
+   * Remove the files in the cache directory that no entry references, and the entries whose file is missing.
+   *
+   * Files are only listed when the file system implements `listFiles` and a directory is known.
+   * Files written but not yet put are not referenced, so run it when no files are being produced, e.g. on startup.
+   *
+   * @param options - The directory to collect and the files to keep.
+   * @returns A report of what was removed.
+   */
+  async collectGarbage(
+    options: GarbageCollectionOptions = {}
+  ): Promise<GarbageCollectionReport> {
+    return this.runCall(async () => {
+      return this.passLock.run(EVICTION_PASS, () =>
+        this.collectGarbagePass(options)
+      );
+    });
+  }
+
+  private async collectGarbagePass({
+    directory = this.options.directory,
+    keep,
+  }: GarbageCollectionOptions) {
+    const report: GarbageCollectionReport = {
+      removedFiles: [],
+      removedEntries: [],
+      bytesFreed: 0,
+    };
+    const referenced = new Set<string>();
+    let hasUnknownEntries = false;
+    this.collectingPaths = referenced;
+
+    try {
+      for (const key of await this.getOurKeys()) {
+        await this.keyLock.run(key, async () => {
+          const decoded = await this.readOurEntry(key);
+
+          if (decoded?.status === "unknown-version") {
+            hasUnknownEntries = true;
+            return;
+          }
+
+          if (decoded?.status !== "ok") {
+            return;
+          }
+
+          const { valueEntry } = decoded;
+          if (await this.files.fileExists(valueEntry.filePath)) {
+            referenced.add(valueEntry.filePath);
+          } else if (await this.deleteOrphanEntry(key, valueEntry)) {
+            report.removedEntries.push(key);
+          }
+        });
+      }
+
+      // We can't tell which files entries written by a newer version reference.
+      if (!directory || !this.files.listFiles || hasUnknownEntries) {
+        return report;
+      }
+
+      for (const filePath of await this.files.listFiles(directory)) {
+        if (referenced.has(filePath) || keep?.(filePath)) {
+          continue;
+        }
+
+        const size = await this.getFileSizeIfExists(filePath);
+        if (await this.files.fileUnlink(filePath)) {
+          report.removedFiles.push(filePath);
+          report.bytesFreed += size;
+        }
+      }
+
+      return report;
+    } finally {
+      this.collectingPaths = null;
+    }
+  }
+
+  private async cleanExpiredEntriesPass() {
+    const now = this.now();
+    let cleanedAny = false;
+
+    await this.forEachExpired(now, async (key, valueEntry) => {
+      const cleaned = await this.cleanExpiredEntry(key, now, valueEntry);
+      if (cleaned) {
+        cleanedAny = true;
+      }
+      return true;
+    });
+
+    return cleanedAny;
+  }
+
+  /**
+   * The options, overridden by the limits set with `configure`.
+   */
+  private getLimits(): KeyValueCacheLimits {
+    const { evictionMillis, maxEntries, maxCacheSize } = this.options;
+    return {
+      evictionMillis,
+      maxEntries,
+      maxCacheSize,
+      ...this.configuredLimits,
+    };
+  }
+
+  private isOverLimits() {
+    const { maxEntries, maxCacheSize } = this.getLimits();
+    return this.entriesCount > maxEntries || this.diskSize > maxCacheSize;
+  }
+
+  private async enforceLimits() {
+    if (this.cleanUpPromise) {
+      // Join the pass in flight, then check again since it may have started before our changes.
+      await this.cleanUpPromise;
+    }
+
+    if (!this.isOverLimits()) {
+      return;
+    }
+
+    if (!this.cleanUpPromise) {
+      const pass = this.passLock.run(EVICTION_PASS, async () => {
+        await this.cleanUpCount();
+        await this.cleanUpDiskSize();
+      });
+      this.cleanUpPromise = pass;
+      void pass.then(
+        () => this.clearCleanUpPromise(pass),
+        () => this.clearCleanUpPromise(pass)
+      );
+    }
+
+    await this.cleanUpPromise;
+  }
+
+  private clearCleanUpPromise(pass: Promise<void>) {
+    if (this.cleanUpPromise === pass) {
+      this.cleanUpPromise = null;
+    }
+  }
+
+  private async cleanUpCount() {
+    const { maxEntries } = this.getLimits();
+    const countToClean = this.entriesCount - maxEntries;
+
+    if (countToClean <= 0) {
+      return;
+    }
+
+    // Lowest priority and least recently used first, regardless of evictionMillis.
+    await this.forEachEvictable(async (key, valueEntry) => {
+      if (this.entriesCount <= maxEntries) {
+        return false;
+      }
+
+      await this.evictEntry(key, valueEntry, "count");
+      return true;
+    });
+  }
+
+  async getCurrentEntriesCount() {
+    await this.ensureBooted();
+    return this.entriesCount;
+  }
+
+  async getCurrentDiskSize() {
+    await this.ensureBooted();
+    return this.diskSize;
+  }
+
+  /**
+   * Get the total size of the pinned entries, which is part of the disk size but can't be evicted.
+   */
+  async getCurrentPinnedSize() {
+    await this.ensureBooted();
+    return this.pinnedSize;
+  }
+
+  /**
+   * Get what happened to the cache since its stats started being counted.
+   *
+   * @returns The stats along with the current entries count and disk size.
+   */
+  async getStats(): Promise<KeyValueCacheStats> {
+    await this.ensureBooted();
+    return this.stats.snapshot(
+      this.entriesCount,
+      this.diskSize,
+      this.pinnedSize
+    );
+  }
+
+  /**
+   * Write the accesses kept in memory by the `throttled` and `buffered` access write modes to the store,
+   * along with the index changes left by hits and, with `persistStats`, the stats.
+   */
+  async flush(): Promise<void> {
+    return this.runCall(async () => {
+      await this.flushAccesses();
+      await this.persistStats();
+    });
+  }
+
+  private async flushAccesses() {
+    const pending = [...this.pendingAccesses];
+    const keys = pending.map(([key]) => key);
+
+    await this.keyLock.runMany(keys, () =>
+      this.withBatchedIndexWrites(async () => {
+        const values = await this.getValues(keys);
+        const writes: {
+          key: string;
+          valueEntry: ValueEntry;
+          access: PendingAccess;
+        }[] = [];
+
+        for (const [i, [key, access]] of pending.entries()) {
+          const value = values[i];
+          const decoded = value
+            ? await decodeValueEntry(value, this.migrationContext)
+            : null;
+
+          if (decoded?.status !== "ok") {
+            // Gone, or no longer ours to update.
+            this.deletePendingAccess(key, access);
+            continue;
+          }
+
+          const { valueEntry } = decoded;
+          if (valueEntry.lastAccessed < access.lastAccessed) {
+            writes.push({
+              key,
+              valueEntry: { ...valueEntry, ...accessFieldsOf(access) },
+              access,
+            });
+          } else {
+            this.deletePendingAccess(key, access);
+          }
+        }
+
+        const isSet = await this.setValues(
+          writes.map(({ key, valueEntry }) => [
+            key,
+            encodeValueEntry(valueEntry),
+          ])
+        );
+
+        for (const [i, { key, valueEntry, access }] of writes.entries()) {
+          if (isSet[i]) {
+            this.deletePendingAccess(key, access);
+          } else {
+            // Kept pending, the next flush will try again.
+            this.events.emit("error", {
+              key,
+              filePath: valueEntry.filePath,
+              size: valueEntry.size,
+              operation: "store-write",
+            });
+          }
+        }
+
+        if (pending.length > 0 || this.hasUnpersistedHits) {
+          await this.persistIndex();
+        }
+      })
+    );
+  }
+
+  /**
+   * Close the cache: reject further calls, stop background work, and flush pending writes.
+   *
+   * A boot in progress stops before its next write. Calls in flight, background revalidations and eviction passes are waited for.
+   */
+  async close(): Promise<void> {
+    if (!this.closePromise) {
+      this.closePromise = this.shutDown();
+    }
+    return this.closePromise;
+  }
+
+  /**
+   * Same as `close`.
+   */
+  async dispose(): Promise<void> {
+    return this.close();
+  }
+
+  private async shutDown() {
+    const wasReady = this.currentState === "ready";
+    this.currentState = "closed";
+
+    if (this.accessFlushTimer) {
+      clearInterval(this.accessFlushTimer);
+      this.accessFlushTimer = null;
+    }
+
+    if (this.statsTimer) {
+      clearInterval(this.statsTimer);
+      this.statsTimer = null;
+    }
+
+    if (this.maintenanceTimer) {
+      clearInterval(this.maintenanceTimer);
+      this.maintenanceTimer = null;
+    }
+
+    this.stopMaintenanceTrigger?.();
+    this.stopMaintenanceTrigger = null;
+
+    // It stops at its next step, failing the calls waiting for it.
+    await this.bootPromise?.catch(() => undefined);
+    // Their failures were already reported to their callers. Calls go first, they may start more work.
+    await Promise.all(
+      [...this.callsInFlight].map(call => call.catch(() => undefined))
+    );
+    await Promise.all(
+      [
+        ...this.revalidating.values(),
+        this.cleanUpPromise,
+        this.expiryPromise,
+        this.maintenancePromise,
+      ].map(work => work?.catch(() => undefined))
+    );
+
+    if (wasReady) {
+      await this.flushAccesses();
+    }
+
+    await this.indexWrite;
+    await this.persistStats();
+  }
+
+  private startAccessFlushes() {
+    const { accessWrite, accessWriteMillis } = this.options;
+
+    if (accessWrite !== "buffered" || !accessWriteMillis) {
+      return;
+    }
+
+    this.accessFlushTimer = setInterval(() => {
+      // Failures keep the accesses pending for the next flush.
+      this.flush().catch(() => undefined);
+    }, accessWriteMillis);
+    // Don't keep a Node.js process alive just to flush.
+    (this.accessFlushTimer as { unref?: () => void }).unref?.();
+  }
+
+  private deletePendingAccess(key: string, access: PendingAccess) {
+    // Unless accessed again while flushing.
+    if (this.pendingAccesses.get(key) === access) {
+      this.pendingAccesses.delete(key);
+    }
+  }
+
+  private async cleanUpDiskSize() {
+    const { maxCacheSize } = this.getLimits();
+    const sizeToClean = this.diskSize - maxCacheSize;
+
+    if (sizeToClean <= 0) {
+      return;
+    }
+
+    // Lowest priority and least recently used first, regardless of evictionMillis.
+    await this.forEachEvictable(async (key, valueEntry) => {
+      if (this.diskSize <= maxCacheSize) {
+        return false;
+      }
+
+      await this.evictEntry(key, valueEntry, "size");
+      return true;
+    });
+  }
+
+  private async cleanExpiredEntry(
+    key: string,
+    now: number,
+    valueEntry: ValueEntry
+  ): Promise<boolean> {
+    if (!valueEntry.pinned && this.isPastStaleWindow(valueEntry, now)) {
+      return this.evictEntry(key, valueEntry, "expired");
+    }
+
+    return false;
+  }
+
+  /**
+   * Expired entries stay usable as stale for `staleWhileRevalidateMillis`.
+   */
+  private isPastStaleWindow(
+    entry: ExpiryFields,
+    now: number,
+    evictionMillis: number = this.getLimits().evictionMillis
+  ) {
+    const staleMillis = this.options.staleWhileRevalidateMillis ?? 0;
+    return this.isExpired(entry, now - staleMillis, evictionMillis);
+  }
+
+  /**
+   * An entry expires at its `expiresAt`, or `ttlMillis` after its last access, defaulting to `evictionMillis`.
+   */
+  private isExpired(
+    entry: ExpiryFields,
+    now: number,
+    evictionMillis: number = this.getLimits().evictionMillis
+  ) {
+    if (typeof entry.expiresAt === "number" && entry.expiresAt <= now) {
+      return true;
+    }
+
+    const ttlMillis = entry.ttlMillis ?? evictionMillis;
+    return entry.lastAccessed < now - ttlMillis;
+  }
+
+  private async evictEntry(
+    key: string,
+    valueEntry: ValueEntry,
+    reason: EvictionReason
+  ): Promise<boolean> {
+    const isDeleted = await this.tryDeleteKeyValue(key, valueEntry);
+
+    if (!isDeleted) {
+      return false;
+    }
+
+    await this.afterEvict(key, valueEntry, reason);
+    return true;
+  }
+
+  /**
+   * Records the inflation of an entry being put or hit, with an aging eviction policy.
+   */
+  private inflate(valueEntry: ValueEntry) {
+    if (this.options.evictionPolicy?.aging) {
+      valueEntry.inflation = this.inflation;
+    }
+  }
+
+  /**
+   * Raises the inflation to the rank of an entry evicted for the limits, with an aging eviction policy.
+   */
+  private raiseInflation(valueEntry: ValueEntry) {
+    const policy = this.options.evictionPolicy;
+    if (policy?.aging) {
+      this.inflation = Math.max(
+        this.inflation,
+        policy.rank(this.toIndexEntry(valueEntry))
+      );
+    }
+  }
+
+  /**
+   * Accounts for an entry whose key was deleted, unlinking its file.
+   *
+   * @returns The error if its file couldn't be unlinked.
+   */
+  private async afterEvict(
+    key: string,
+    valueEntry: ValueEntry,
+    reason: EvictionReason
+  ) {
+    const { filePath, size } = valueEntry;
+    if (reason === "count" || reason === "size") {
+      this.raiseInflation(valueEntry);
+    }
+    this.safeDecrementEntriesCount();
+    const unlinkError = await this.tryDecrementDiskSize(key, valueEntry);
+    this.safeDecrementPinnedSize(valueEntry);
+    await this.removeFromIndex(key);
+    this.events.emit("evict", { key, filePath, size, reason });
+    return unlinkError;
+  }
+
+  private async deleteCorruptEntry(key: string) {
+    const isDeleted = await this.tryDeleteKeyValue(key);
+
+    if (!isDeleted) {
+      return false;
+    }
+
+    await this.afterDeleteCorrupt(key);
+    return true;
+  }
+
+  private async afterDeleteCorrupt(key: string) {
+    this.safeDecrementEntriesCount();
+    // Only the index still knows the size of a corrupted entry.
+    const indexEntry = this.index?.get(key);
+    const size = indexEntry?.size ?? null;
+    this.safeDecrementDiskSize(size ?? 0);
+    this.safeDecrementPinnedSize(indexEntry);
+    await this.removeFromIndex(key);
+    this.events.emit("corrupt", { key, filePath: null, size });
+  }
+
+  private async deleteOrphanEntry(key: string, valueEntry: ValueEntry) {
+    const isDeleted = await this.tryDeleteKeyValue(key, valueEntry);
+
+    if (!isDeleted) {
+      return false;
+    }
+
+    const { filePath, size } = valueEntry;
+    this.safeDecrementEntriesCount();
+    // The file is gone, so are its bytes.
+    this.safeDecrementDiskSize(size);
+    this.safeDecrementPinnedSize(valueEntry);
+    await this.removeFromIndex(key);
+    this.events.emit("orphan", { key, filePath, size });
+    return true;
+  }
+
+  private async tryDeleteKeyValue(key: string, valueEntry?: ValueEntry) {
+    const isDeleted = await this.store
+      .deleteKeyValue(key)
+      .catch(err =>
+        this.rethrow(err, new StoreDeleteError(key, { cause: err }))
+      );
+
+    if (!isDeleted) {
+      this.emitDeleteError(key, valueEntry);
+    }
+
+    return isDeleted;
+  }
+
+  private emitDeleteError(key: string, valueEntry?: ValueEntry) {
+    this.events.emit("error", {
+      key,
+      filePath: valueEntry?.filePath ?? null,
+      size: valueEntry?.size ?? null,
+      operation: "store-delete",
+    });
+  }
+
+  private async getValues(keys: string[]): Promise<(string | null)[]> {
+    if (keys.length === 0) {
+      return [];
+    }
+    if (this.store.getValuesForKeys) {
+      return this.store.getValuesForKeys(keys);
+    }
+    return Promise.all(keys.map(key => this.store.getValueForKey(key)));
+  }
+
+  private async setValues(entries: [string, string][]): Promise<boolean[]> {
+    if (entries.length === 0) {
+      return [];
+    }
+    if (this.store.setValuesForKeys) {
+      return this.store.setValuesForKeys(entries);
+    }
+    return Promise.all(
+      entries.map(([key, value]) => this.store.setValueForKey(key, value))
+    );
+  }
+
+  private async deleteValues(keys: string[]): Promise<boolean[]> {
+    if (keys.length === 0) {
+      return [];
+    }
+    if (this.store.deleteKeyValues) {
+      return this.store.deleteKeyValues(keys);
+    }
+    return Promise.all(keys.map(key => this.store.deleteKeyValue(key)));
+  }
+
+  /**
+   * Stops writing to the store as soon as the cache is closed, which only waits for the step in flight.
+   */
+  private async boot() {
+    if (this.options.persistStats) {
+      const value = await this.store.getValueForKey(this.getStatsKey());
+      const stats = value ? CacheStats.parse(value) : null;
+      if (stats) {
+        this.stats = stats;
+      }
+    }
+
+    if (this.options.useIndex) {
+      const value = await this.store.getValueForKey(this.getIndexKey());
+      const index = value ? CacheIndex.parse(value) : null;
+      this.throwIfClosed();
+
+      if (index) {
+        this.index = index;
+        this.entriesCount = index.count;
+        this.diskSize = index.size;
+        this.pinnedSize = index.pinnedSize;
+        this.inflation = index.inflation;
+        await this.normalizeIndexedTimestamps();
+        return;
+      }
+    }
+
+    const { entriesCount, diskSize, pinnedSize, inflation } =
+      await this.getOurTotals();
+    this.entriesCount = entriesCount;
+    this.diskSize = diskSize;
+    this.pinnedSize = pinnedSize;
+    this.inflation = inflation;
+
+    if (this.options.useIndex) {
+      this.throwIfClosed();
+      // Missing or inconsistent.
+      await this.rebuildIndex();
+    }
+  }
+
+  private getIndexKey() {
+    return CacheIndex.keyFor(this.options.prefix);
+  }
+
+  private getStatsKey() {
+    return CacheStats.keyFor(this.options.prefix);
+  }
+
+  private trackStats() {
+    this.events.on("hit", () => {
+      this.stats.recordHit();
+      this.isStatsDirty = true;
+    });
+    this.events.on("miss", () => {
+      this.stats.recordMiss();
+      this.isStatsDirty = true;
+    });
+    this.events.on("put", () => {
+      this.stats.recordPut();
+      this.isStatsDirty = true;
+    });
+    this.events.on("evict", ({ reason, size }) => {
+      this.stats.recordEviction(reason, size);
+      this.isStatsDirty = true;
+    });
+    this.events.on("corrupt", () => {
+      this.stats.recordCorrupt();
+      this.isStatsDirty = true;
+    });
+  }
+
+  /**
+   * Writes the stats snapshot if it changed, coalescing the changes made while a write is in flight.
+   */
+  private async persistStats() {
+    if (!this.options.persistStats) {
+      return;
+    }
+
+    if (!this.statsWrite) {
+      this.statsWrite = (async () => {
+        while (this.isStatsDirty) {
+          this.isStatsDirty = false;
+          try {
+            await this.store.setValueForKey(
+              this.getStatsKey(),
+              this.stats.serialize()
+            );
+          } catch (err) {
+            // Stats are best effort, the next write will try again.
+            this.isStatsDirty = true;
+            break;
+          }
+        }
+        this.statsWrite = null;
+      })();
+    }
+
+    await this.statsWrite;
+  }
+
+  private startStatsWrites() {
+    if (!this.options.persistStats) {
+      return;
+    }
+
+    this.statsTimer = setInterval(() => {
+      void this.persistStats();
+    }, this.options.persistStatsMillis ?? DEFAULT_PERSIST_STATS_MILLIS);
+    // Don't keep a Node.js process alive just to write stats.
+    (this.statsTimer as { unref?: () => void }).unref?.();
+  }
+
+  private async rebuildIndex() {
+    const ourKeyValues = await this.getAllByOldestFirst();
+    this.index = CacheIndex.fromEntries(
+      ourKeyValues.map(({ key, valueEntry }) => ({
+        key,
+        ...this.toIndexEntry(valueEntry),
+      }))
+    );
+    this.entriesCount = this.index.count;
+    this.diskSize = this.index.size;
+    this.pinnedSize = this.index.pinnedSize;
+    await this.persistIndex();
+  }
+
+  private async persistIndex() {
+    if (this.indexBatchDepth > 0) {
+      this.isIndexDirty = true;
+      return;
+    }
+
+    this.isIndexDirty = false;
+
+    if (this.queuedIndexWrite) {
+      // It serializes the index when its turn comes, so it will include our changes.
+      return this.queuedIndexWrite;
+    }
+
+    // Chained, and serialized when its turn comes, so the last write is always the latest index.
+    const write = this.indexWrite.then(async () => {
+      // From now on, changes need another write.
+      this.queuedIndexWrite = null;
+      this.hasUnpersistedHits = false;
+      if (this.index) {
+        await this.store.setValueForKey(
+          this.getIndexKey(),
+          this.index.serialize()
+        );
+      }
+    });
+    this.queuedIndexWrite = write;
+    // A failed write only fails its callers, the next writes still go through.
+    this.indexWrite = write.catch(() => undefined);
+    await write;
+  }
+
+  /**
+   * Runs an operation, persisting the index once at the end of it rather than on every change.
+   */
+  private async withBatchedIndexWrites<T>(operation: () => Promise<T>) {
+    this.indexBatchDepth++;
+    try {
+      return await operation();
+    } finally {
+      this.indexBatchDepth--;
+      if (this.indexBatchDepth === 0 && this.isIndexDirty) {
+        this.isIndexDirty = false;
+        await this.persistIndex();
+      }
+    }
+  }
+
+  private toIndexEntry(valueEntry: ValueEntry): CacheIndexEntry {
+    const {
+      lastAccessed,
+      size,
+      priority = 0,
+      pinned = false,
+      ttlMillis = null,
+      expiresAt = null,
+      createdAt,
+      accessCount = 0,
+      inflation = 0,
+    } = valueEntry;
+    return {
+      lastAccessed,
+      size,
+      priority,
+      pinned,
+      ttlMillis,
+      expiresAt,
+      createdAt,
+      accessCount,
+      inflation,
+    };
+  }
+
+  private async touchIndex(key: string, valueEntry: ValueEntry) {
+    if (this.index) {
+      this.index.touch(key, this.toIndexEntry(valueEntry));
+      await this.persistIndex();
+    }
+  }
+
+  private async removeFromIndex(key: string) {
+    if (this.index?.remove(key)) {
+      await this.persistIndex();
+    }
+  }
+
+  /**
+   * Calls back with our unpinned expired entries, least recently used first, until the callback returns false.
+   *
+   * Reads the index when there is one, falling back to scanning all keys otherwise.
+   * Entries have their own expiry, so all of them are checked rather than stopping at the first fresh one.
+   */
+  private async forEachExpired(
+    now: number,
+    callback: (key: string, valueEntry: ValueEntry) => Promise<boolean>
+  ) {
+    // The scan normalizes the entries it reads, the index needs it done first.
+    await this.normalizeIndexedTimestamps();
+    const index = this.index;
+    const candidates = index
+      ? index.keysByOldestFirst().flatMap(key => {
+          const entry = index.get(key);
+          return entry && !entry.pinned && this.isPastStaleWindow(entry, now)
+            ? [{ key, lastAccessed: entry.lastAccessed }]
+            : [];
+        })
+      : (await this.getAllByOldestFirst())
+          .filter(
+            ({ valueEntry }) =>
+              !valueEntry.pinned && this.isPastStaleWindow(valueEntry, now)
+          )
+          .map(({ key, valueEntry }) => ({
+            key,
+            lastAccessed: valueEntry.lastAccessed,
+          }));
+
+    await this.forEachCandidate(candidates, callback);
+  }
+
+  /**
+   * Calls back with our unpinned entries, lowest priority first, then in the order of the eviction policy,
+   * until the callback returns false.
+   */
+  private async forEachEvictable(
+    callback: (key: string, valueEntry: ValueEntry) => Promise<boolean>
+  ) {
+    const policy = this.options.evictionPolicy ?? lruPolicy;
+    await this.normalizeIndexedTimestamps();
+    const index = this.index;
+    const candidates = index
+      ? index
+          .keysByEvictionOrder(policy)
+          .map(key => ({ key, lastAccessed: index.get(key)?.lastAccessed }))
+      : this.sortByEvictionOrder(await this.getAllByOldestFirst()).map(
+          ({ key, valueEntry }) => ({
+            key,
+            lastAccessed: valueEntry.lastAccessed,
+          })
+        );
+
+    // The entries being put go last, so that a put isn't undone by its own eviction pass.
+    const ordered = [
+      ...candidates.filter(({ key }) => !this.puttingKeys.has(key)),
+      ...candidates.filter(({ key }) => this.puttingKeys.has(key)),
+    ];
+
+    await this.forEachCandidate(ordered, async (key, valueEntry) =>
+      // Pinned since the candidates were listed.
+      valueEntry.pinned ? true : callback(key, valueEntry)
+    );
+  }
+
+  /**
+   * Sorts entries listed least recently used first in eviction order, leaving out the pinned ones.
+   */
+  private sortByEvictionOrder(
+    entries: { key: string; valueEntry: ValueEntry }[]
+  ) {
+    const policy = this.options.evictionPolicy ?? lruPolicy;
+    return (
+      entries
+        .filter(({ valueEntry }) => !valueEntry.pinned)
+        .map(entry => ({
+          ...entry,
+          rank: policy.rank(this.toIndexEntry(entry.valueEntry)),
+        }))
+        // Stable, so least recently used first within a priority and a rank.
+        .sort(
+          (a, b) =>
+            (a.valueEntry.priority ?? 0) - (b.valueEntry.priority ?? 0) ||
+            a.rank - b.rank
+        )
+    );
+  }
+
+  /**
+   * Each candidate is read again and called back while holding its key lock,
+   * and skipped if it was accessed since the candidates were listed.
+   */
+  private async forEachCandidate(
+    candidates: { key: string; lastAccessed: number | undefined }[],
+    callback: (key: string, valueEntry: ValueEntry) => Promise<boolean>
+  ) {
+    let isIndexStale = false;
+    let isDone = false;
+
+    for (const { key, lastAccessed } of candidates) {
+      if (isDone) {
+        break;
+      }
+
+      await this.keyLock.run(key, async () => {
+        const decoded = await this.readOurEntry(key);
+        // Under the key lock, the index always agrees with the stored entry, unless it is stale.
+        const indexEntry = this.index?.get(key);
+
+        if (!decoded || decoded.status === "unknown-version") {
+          // Either gone, or overwritten by a newer version of the library.
+          isIndexStale = isIndexStale || Boolean(indexEntry);
+          return;
+        }
+
+        if (decoded.status === "corrupt") {
+          return;
+        }
+
+        const { valueEntry } = decoded;
+
+        if (
+          this.index &&
+          indexEntry?.lastAccessed !== valueEntry.lastAccessed
+        ) {
+          isIndexStale = true;
+          return;
+        }
+
+        if (valueEntry.lastAccessed !== lastAccessed) {
+          // Accessed since the candidates were listed, no longer among the oldest.
+          return;
+        }
+
+        isDone = !(await callback(key, valueEntry));
+      });
+    }
+
+    if (isIndexStale) {
+      await this.rebuildIndex();
+    }
+  }
+
+  /**
+   * Reads and decodes one of our entries, deleting it if it is corrupted.
+   * Must be called while holding the key lock.
+   *
+   * @returns The decoded entry, or null if there is no value for the key.
+   */
+  private async readOurEntry(key: string) {
+    const value = await this.store.getValueForKey(key);
+
+    if (!value) {
+      return null;
+    }
+
+    const decoded = await this.readValueEntry(key, value);
+
+    if (decoded.status === "corrupt") {
+      await this.deleteCorruptEntry(key);
+    }
+
+    return decoded;
+  }
+
+  private async peekOurEntry(key: string) {
+    const value = await this.store.getValueForKey(key);
+    return value ? (await this.peekValueEntry(key, value)).decoded : null;
+  }
+
+  private async getOurKeys() {
+    const allKeys = await this.store.getAllKeys();
+    const indexKey = this.getIndexKey();
+    const statsKey = this.getStatsKey();
+    return allKeys.filter(
+      key =>
+        key.startsWith(this.options.prefix) &&
+        key !== indexKey &&
+        key !== statsKey
+    );
+  }
+
+  /**
+   * Counts the entries this version of the library owns, leaving out the ones of newer versions
+   * like the index does, since they can't be evicted.
+   */
+  private async getOurTotals() {
+    const ourKeys = await this.getOurKeys();
+    let totalCount = 0;
     let totalSize = 0;
+    let totalPinnedSize = 0;
+    // The latest inflation, since it never decreases.
+    let inflation = 0;
     for (const key of ourKeys) {
-      const value = await this.adapter.getValueForKey(key);
+      // Migrating and deleting entries write to the store, which a closed cache doesn't do anymore.
+      this.throwIfClosed();
+      const value = await this.store.getValueForKey(key);
 
       if (!value) {
         continue;
       }
 
-      let valueEntry: ValueEntry;
-      try {
-        valueEntry = zodValueEntry.parse(JSON.parse(value));
-      } catch (err) {
-        const isDeleted = await this.adapter.deleteKeyValue(key);
-        if (isDeleted) {
-          this.safeDecrementEntriesCount();
-        }
-        // We can't decrement the diskSize because the JSON is corrupted.
+      const decoded = await decodeValueEntry(value, this.migrationContext);
+      this.throwIfClosed();
+
+      if (decoded.status === "unknown-version") {
+        // Written by a newer version of the library, leave it alone.
+        continue;
+      }
+
+      if (decoded.status === "corrupt") {
+        await this.deleteCorruptEntry(key);
+        continue;
+      }
+
+      const { valueEntry, isMigrated } = decoded;
+      inflation = Math.max(inflation, valueEntry.inflation ?? 0);
+
+      if (!isMigrated) {
+        totalCount++;
+        totalSize += valueEntry.size;
+        totalPinnedSize += valueEntry.pinned ? valueEntry.size : 0;
         continue;
       }
 
-      const exists = await this.adapter.fileExists(valueEntry.filePath);
+      // Migrated entries already touched the file system, so we also make sure their file is still there.
+      const exists = await this.files.fileExists(valueEntry.filePath);
+      this.throwIfClosed();
       if (exists) {
-        totalSize += await this.adapter.fileSize(valueEntry.filePath);
+        await this.store.setValueForKey(key, encodeValueEntry(valueEntry));
+        totalCount++;
+        totalSize += valueEntry.size;
       } else {
-        const isDeleted = await this.adapter.deleteKeyValue(key);
-        if (isDeleted) {
-          this.safeDecrementEntriesCount();
-        }
-        // We can't decrement the diskSize because the file does not exist.
+        // Not counted, and its size is 0 since the file doesn't exist.
+        await this.deleteOrphanEntry(key, valueEntry);
       }
     }
-    return totalSize;
+    // Migrated entries predate pinning.
+    return {
+      entriesCount: totalCount,
+      diskSize: totalSize,
+      pinnedSize: totalPinnedSize,
+      inflation,
+    };
   }
 
-  private async getAllByOldestFirst(): Promise<
-    { key: string; valueEntry: ValueEntry }[]
-  > {
+  /**
+   * @param isDryRun - Don't delete corrupted entries, nor write back migrated ones.
+   */
+  private async getAllByOldestFirst(
+    isDryRun: boolean = false
+  ): Promise<{ key: string; valueEntry: ValueEntry }[]> {
     const ourKeys = await this.getOurKeys();
 
     const allKeyValues = await Promise.all(
-      ourKeys.map(async key => {
-        const value = await this.adapter.getValueForKey(key);
-        if (!value) {
-          return null;
-        }
-        try {
-          const valueEntry = zodValueEntry.parse(JSON.parse(value));
-          return { key, valueEntry };
-        } catch (err) {
-          const isDeleted = await this.adapter.deleteKeyValue(key);
-          if (isDeleted) {
-            this.safeDecrementEntriesCount();
-          }
-          // We can't decrement the diskSize because the JSON is corrupted.
-          return null;
-        }
-      })
+      ourKeys.map(key =>
+        this.keyLock.run(key, async () => {
+          const decoded = isDryRun
+            ? await this.peekOurEntry(key)
+            : await this.readOurEntry(key);
+          // Entries written by a newer version of the library are left alone.
+          return decoded?.status === "ok"
+            ? { key, valueEntry: decoded.valueEntry }
+            : null;
+        })
+      )
     );
 
     const sortedAndFiltered = allKeyValues
@@ -417,20 +2630,274 @@ export class KeyValueCache<TKeyParams> {
     }
   }
 
-  private async tryDecrementDiskSize(filePath: string) {
-    const exists = await this.adapter.fileExists(filePath);
-    if (exists) {
-      const fileSize = await this.adapter.fileSize(filePath);
-      const isUnlinked = await this.adapter.fileUnlink(filePath);
-      if (isUnlinked) {
-        this.safeDecrementDiskSize(fileSize);
+  private safeDecrementPinnedSize(entry?: { pinned?: boolean; size: number }) {
+    if (entry?.pinned && this.pinnedSize >= entry.size) {
+      this.pinnedSize -= entry.size;
+    }
+  }
+
+  private readonly migrationContext: MigrationContext = {
+    fileSize: path => this.getFileSizeIfExists(path),
+  };
+
+  /**
+   * Decodes a stored value, writing migrated entries back in the current version.
+   */
+  private async readValueEntry(
+    key: string,
+    value: string
+  ): Promise<DecodedValueEntry> {
+    const { decoded, isNormalized } = await this.peekValueEntry(key, value);
+
+    if (decoded.status === "ok" && (decoded.isMigrated || isNormalized)) {
+      await this.store.setValueForKey(
+        key,
+        encodeValueEntry(decoded.valueEntry)
+      );
+    }
+
+    if (decoded.status === "ok" && isNormalized && this.index?.get(key)) {
+      this.index.update(key, this.toIndexEntry(decoded.valueEntry));
+      await this.persistIndex();
+    }
+
+    return decoded;
+  }
+
+  /**
+   * Decodes a stored value as the cache sees it, without writing anything back.
+   */
+  private async peekValueEntry(key: string, value: string) {
+    const decoded = await decodeValueEntry(value, this.migrationContext);
+
+    if (decoded.status !== "ok") {
+      return { decoded, isNormalized: false };
+    }
+
+    // The store may lag behind accesses that aren't written yet.
+    const pendingAccess = this.pendingAccesses.get(key);
+    if (
+      pendingAccess &&
+      pendingAccess.lastAccessed > decoded.valueEntry.lastAccessed
+    ) {
+      Object.assign(decoded.valueEntry, accessFieldsOf(pendingAccess));
+    }
+
+    return {
+      decoded,
+      isNormalized: this.normalizeTimestamps(decoded.valueEntry),
+    };
+  }
+
+  /**
+   * Brings back timestamps from the future, left by a clock that moved backwards,
+   * which would otherwise never expire nor be evicted by age.
+   *
+   * @returns Whether any timestamp was changed.
+   */
+  private normalizeTimestamps(valueEntry: ValueEntry) {
+    const now = this.now();
+    let isNormalized = false;
+
+    if (valueEntry.lastAccessed > now) {
+      valueEntry.lastAccessed = now;
+      isNormalized = true;
+    }
+
+    if (valueEntry.createdAt > now) {
+      valueEntry.createdAt = now;
+      isNormalized = true;
+    }
+
+    return isNormalized;
+  }
+
+  /**
+   * Normalizes the entries that the index says are from the future, see `normalizeTimestamps`.
+   * Done at boot and before listing candidates from the index, since the clock may move back at any time.
+   */
+  private async normalizeIndexedTimestamps() {
+    const keys = this.index?.keysAfter(this.now()) ?? [];
+
+    for (const key of keys) {
+      await this.keyLock.run(key, () => this.readOurEntry(key));
+    }
+  }
+
+  /**
+   * With `strict`, throw the error, otherwise resolve to false.
+   */
+  private fail(error: KeyValueCacheError): false {
+    if (this.options.strict) {
+      throw error;
+    }
+    return false;
+  }
+
+  /**
+   * Rethrow an adapter error, wrapped in a typed error with `strict`.
+   */
+  private rethrow(err: unknown, error: KeyValueCacheError): never {
+    throw this.options.strict ? error : err;
+  }
+
+  /**
+   * Rounded down and kept positive, as the stored timestamps are, whatever clock is injected.
+   */
+  private now() {
+    const now = this.options.now ? this.options.now() : Date.now();
+    return Math.max(1, Math.floor(now));
+  }
+
+  private async getFileSizeIfExists(filePath: string) {
+    const exists = await this.files.fileExists(filePath);
+    return exists ? await this.files.fileSize(filePath) : 0;
+  }
+
+  private async getFingerprint(filePath: string) {
+    if (
+      (this.options.verify ?? "never") === "never" ||
+      !this.files.fileFingerprint
+    ) {
+      return undefined;
+    }
+
+    try {
+      return await this.files.fileFingerprint(filePath);
+    } catch (err) {
+      // Nothing to verify against later.
+      return undefined;
+    }
+  }
+
+  /**
+   * Checks the file of an entry against the fingerprint recorded by `put`, according to the `verify` option.
+   * Entries without a fingerprint can't be checked and are considered intact.
+   *
+   * @returns False if the file doesn't match, marking the entry as verified otherwise.
+   */
+  private async verifyEntry(valueEntry: ValueEntry) {
+    const verify = this.options.verify ?? "never";
+    const { fingerprint, filePath } = valueEntry;
+
+    if (verify === "never" || !fingerprint || !this.files.fileFingerprint) {
+      return true;
+    }
+
+    if (verify === "on-first-access" && valueEntry.isVerified) {
+      return true;
+    }
+
+    let actual: string;
+    try {
+      actual = await this.files.fileFingerprint(filePath);
+    } catch (err) {
+      return false;
+    }
+
+    if (actual !== fingerprint) {
+      return false;
+    }
+
+    // Written back along with lastAccessed.
+    valueEntry.isVerified = true;
+    return true;
+  }
+
+  /**
+   * A file that couldn't be unlinked, even by a throwing file system, is reported and left counted.
+   *
+   * @returns The error if the file couldn't be unlinked.
+   */
+  private async tryDecrementDiskSize(key: string, valueEntry: ValueEntry) {
+    const { filePath, size } = valueEntry;
+    let unlinkError: FileUnlinkError | null = null;
+
+    try {
+      const isFreed =
+        !(await this.files.fileExists(filePath)) ||
+        (await this.files.fileUnlink(filePath));
+      if (!isFreed) {
+        unlinkError = new FileUnlinkError(key, filePath);
+      }
+    } catch (err) {
+      unlinkError = new FileUnlinkError(key, filePath, { cause: err });
+    }
+
+    if (!unlinkError) {
+      // Unlinked, or already gone along with its bytes.
+      this.safeDecrementDiskSize(size);
+      return null;
+    }
+
+    this.events.emit("error", {
+      key,
+      filePath,
+      size,
+      operation: "file-unlink",
+    });
+    return unlinkError;
+  }
+
+  private startBoot() {
+    this.currentState = "booting";
+    const boot = this.boot().then(
+      () => {
+        if (this.currentState === "booting") {
+          this.currentState = "ready";
+        }
+      },
+      err => {
+        if (this.currentState === "booting") {
+          this.currentState = "failed";
+        }
+        throw err;
       }
+    );
+    // Rejected to the calls waiting for it, not left unhandled when there are none.
+    boot.catch(() => undefined);
+    this.bootPromise = boot;
+  }
+
+  /**
+   * Runs a call once booted, keeping track of it until it settles so that `close` waits for it.
+   */
+  private async runCall<T>(operation: () => Promise<T>): Promise<T> {
+    await this.ensureBooted();
+
+    if (this.currentState === "closed") {
+      // Closed while resuming from the boot check.
+      throw new CacheClosedError();
+    }
+
+    const call = operation();
+    this.callsInFlight.add(call);
+    try {
+      return await call;
+    } finally {
+      this.callsInFlight.delete(call);
+    }
+  }
+
+  private throwIfClosed() {
+    if (this.currentState === "closed") {
+      throw new CacheClosedError();
     }
   }
 
   private async ensureBooted(): Promise<void> {
-    if (!this.isBooted) {
+    if (this.currentState === "ready") {
+      return;
+    }
+
+    if (this.currentState === "failed") {
+      this.startBoot();
+    }
+
+    if (this.currentState !== "closed") {
       await this.bootPromise;
     }
+
+    this.throwIfClosed();
   }
 }
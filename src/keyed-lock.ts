@@ -0,0 +1,45 @@
+/**
+ * Keyed Lock
+ *
+ * Runs async operations that share the same key one after the other, in call order.
+ * Operations on different keys run concurrently.
+ */
+export class KeyedLock {
+  private tails = new Map<string, Promise<void>>();
+
+  run<T>(key: string, operation: () => Promise<T>): Promise<T> {
+    return this.runMany([key], operation);
+  }
+
+  /**
+   * Runs an operation once the previous operations on all the given keys are done,
+   * holding all of them until it is done.
+   *
+   * Tails are all taken and replaced synchronously, so overlapping calls can't wait for each other.
+   */
+  runMany<T>(keys: string[], operation: () => Promise<T>): Promise<T> {
+    const previous = Promise.all(
+      keys.map(key => this.tails.get(key) ?? Promise.resolve())
+    );
+    const result = previous.then(operation);
+
+    // A failed operation must not block the ones queued after it.
+    const tail = result.then(
+      () => undefined,
+      () => undefined
+    );
+    for (const key of keys) {
+      this.tails.set(key, tail);
+    }
+
+    void tail.then(() => {
+      for (const key of keys) {
+        if (this.tails.get(key) === tail) {
+          this.tails.delete(key);
+        }
+      }
+    });
+
+    return result;
+  }
+}
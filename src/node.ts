@@ -0,0 +1,7 @@
+/**
+ * Node.js adapters.
+ *
+ * Kept out of the main entry point, so that it doesn't pull Node.js built-ins into React Native bundles.
+ */
+export * from "./adapters/json-file-store";
+export * from "./adapters/node-file-system";
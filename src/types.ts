@@ -0,0 +1,434 @@
+import type { ZodType } from "zod";
+import type { EvictionPolicy } from "./eviction-policy";
+import type { KeyValueCacheError } from "./errors";
+import type { EvictionReason } from "./events";
+
+/**
+ * KeyValue Cache Options
+ *
+ * @field prefix - The prefix to use for the keys.
+ * @field evictionMillis - The time in milliseconds after which an entry is considered expired.
+ * @field maxEntries - The maximum number of entries to store in the cache.
+ * @field maxCacheSize - The maximum size of the cache in bytes.
+ * @field useIndex - Maintain an index under the prefix, so that boot and eviction don't scan all keys.
+ * @field persistStats - Persist the `getStats` counters under the prefix, so that they survive restarts.
+ * @field persistStatsMillis - With `persistStats`, the interval the counters are written on, besides `flush` and `close`. Defaults to 10 seconds.
+ * @field directory - The directory the cache files are written to, where `collectGarbage` looks for orphaned files.
+ * @field verify - When `get` checks files against the fingerprint recorded by `put`: `never` (default), `on-first-access` or `always`.
+ * @field staleWhileRevalidateMillis - How long an expired entry stays usable as stale, while the revalidator refreshes it. Defaults to 0.
+ * @field accessWrite - How a hit writes `lastAccessed` back to the store: `immediate` (default), `throttled` or `buffered`.
+ * @field accessWriteMillis - With `throttled`, the minimum time between writes of an entry. With `buffered`, the flush interval, only flushing on `flush` and `close` if unset.
+ * @field evictionPolicy - Ranks the entries to evict when over `maxEntries` or `maxCacheSize`. Defaults to `lruPolicy`.
+ * @field now - The clock, in milliseconds since epoch. Defaults to `Date.now`. Its times are rounded down to integers, and to at least 1.
+ * @field maintenanceMillis - Run maintenance on this interval. Disabled if unset.
+ * @field maintenanceTrigger - Run maintenance whenever it calls back, e.g. when the app goes idle.
+ * @field maintenanceBatchSize - The maximum number of entries a maintenance run checks. Defaults to 100.
+ * @field strict - Make `put`, `delete`, `pin` and `unpin` throw typed errors instead of resolving to false, and `put` require the file to exist.
+ */
+export interface KeyValueCacheOptions {
+  prefix: string;
+  evictionMillis: number;
+  maxEntries: number;
+  maxCacheSize: number;
+  useIndex?: boolean;
+  persistStats?: boolean;
+  persistStatsMillis?: number;
+  directory?: string;
+  verify?: VerifyMode;
+  staleWhileRevalidateMillis?: number;
+  accessWrite?: AccessWriteMode;
+  accessWriteMillis?: number;
+  evictionPolicy?: EvictionPolicy;
+  now?: () => number;
+  maintenanceMillis?: number;
+  maintenanceTrigger?: MaintenanceTrigger;
+  maintenanceBatchSize?: number;
+  strict?: boolean;
+}
+
+/**
+ * When `get` checks a file against its recorded fingerprint.
+ *
+ * - never: Files are not fingerprinted.
+ * - on-first-access: The first `get` of an entry checks its file.
+ * - always: Every `get` checks the file.
+ */
+export type VerifyMode = "never" | "on-first-access" | "always";
+
+/**
+ * Calls back to run maintenance, e.g. from `InteractionManager.runAfterInteractions` or on an `AppState` change.
+ *
+ * @returns A function that stops calling back, called when the cache is closed.
+ */
+export type MaintenanceTrigger = (runMaintenance: () => void) => () => void;
+
+/**
+ * Where a cache is in its lifecycle.
+ *
+ * - booting: Counting its entries, calls wait for it.
+ * - ready: Booted.
+ * - failed: Booting failed, the next call boots again.
+ * - closed: Closed, calls are rejected.
+ */
+export type KeyValueCacheState = "booting" | "ready" | "failed" | "closed";
+
+/**
+ * When a hit writes the new `lastAccessed` of an entry back to the store.
+ *
+ * - immediate: On every hit.
+ * - throttled: Only if the stored one is older than `accessWriteMillis`.
+ * - buffered: Kept in memory until flushed.
+ *
+ * Unwritten accesses still count for expiry and eviction ordering, and are written by `flush`.
+ */
+export type AccessWriteMode = "immediate" | "throttled" | "buffered";
+
+/**
+ * KeyValue Cache Limits
+ *
+ * The options that can be changed at runtime with `configure`.
+ */
+export type KeyValueCacheLimits = Pick<
+  KeyValueCacheOptions,
+  "evictionMillis" | "maxEntries" | "maxCacheSize"
+>;
+
+/**
+ * KeyValue Store
+ *
+ * The key-value storage part of an adapter.
+ *
+ * @field getValueForKey - Get the value for a given key.
+ * @field setValueForKey - Set the value for a given key.
+ * @field deleteKeyValue - Delete the value for a given key.
+ * @field getAllKeys - Get all the keys in the store.
+ * @field getValuesForKeys - Optional, get the values for several keys at once, in the same order.
+ * @field setValuesForKeys - Optional, set several values at once, resolving to whether each was set.
+ * @field deleteKeyValues - Optional, delete several keys at once, resolving to whether each was deleted.
+ */
+export interface KeyValueStore {
+  getValueForKey(key: string): Promise<string | null>;
+  setValueForKey(key: string, value: string): Promise<boolean>;
+  deleteKeyValue(key: string): Promise<boolean>;
+  getAllKeys(): Promise<string[]>;
+  getValuesForKeys?: (keys: string[]) => Promise<(string | null)[]>;
+  setValuesForKeys?: (entries: [string, string][]) => Promise<boolean[]>;
+  deleteKeyValues?: (keys: string[]) => Promise<boolean[]>;
+}
+
+/**
+ * File System Adapter
+ *
+ * The file system part of an adapter.
+ *
+ * @field fileExists - Check if a file exists.
+ * @field fileUnlink - Unlink a file.
+ * @field fileSize - Get the size of a file.
+ * @field listFiles - Optional, list the paths of the files in a directory, in the same form as the paths put in the cache.
+ * @field fileFingerprint - Optional, get a content hash, or a cheaper fingerprint like size and modification time, of a file.
+ */
+export interface FileSystemAdapter {
+  fileExists(path: string): Promise<boolean>;
+  fileUnlink(path: string): Promise<boolean>;
+  fileSize(path: string): Promise<number>;
+  listFiles?: (directory: string) => Promise<string[]>;
+  fileFingerprint?: (path: string) => Promise<string>;
+}
+
+/**
+ * KeyValue Cache Adapter
+ *
+ * This is the interface that the KeyValueCache class uses to interact with the underlying storage.
+ *
+ * @field prefix - The prefix to use for the keys.
+ * @field evictionMillis - The time in milliseconds after which an entry is considered expired.
+ * @field maxEntries - The maximum number of entries to store in the cache.
+ * @field maxCacheSize - The maximum size of the cache in bytes.
+ * @field useIndex - Maintain an index under the prefix, so that boot and eviction don't scan all keys.
+ * @field persistStats - Persist the `getStats` counters under the prefix, so that they survive restarts.
+ * @field persistStatsMillis - With `persistStats`, the interval the counters are written on, besides `flush` and `close`. Defaults to 10 seconds.
+ * @field directory - The directory the cache files are written to, where `collectGarbage` looks for orphaned files.
+ * @field verify - When `get` checks files against the fingerprint recorded by `put`: `never` (default), `on-first-access` or `always`.
+ * @field staleWhileRevalidateMillis - How long an expired entry stays usable as stale, while the revalidator refreshes it. Defaults to 0.
+ * @field accessWrite - How a hit writes `lastAccessed` back to the store: `immediate` (default), `throttled` or `buffered`.
+ * @field accessWriteMillis - With `throttled`, the minimum time between writes of an entry. With `buffered`, the flush interval, only flushing on `flush` and `close` if unset.
+ * @field evictionPolicy - Ranks the entries to evict when over `maxEntries` or `maxCacheSize`. Defaults to `lruPolicy`.
+ * @field now - The clock, in milliseconds since epoch. Defaults to `Date.now`. Its times are rounded down to integers, and to at least 1.
+ * @field maintenanceMillis - Run maintenance on this interval. Disabled if unset.
+ * @field maintenanceTrigger - Run maintenance whenever it calls back, e.g. when the app goes idle.
+ * @field maintenanceBatchSize - The maximum number of entries a maintenance run checks. Defaults to 100.
+ * @field strict - Make `put`, `delete`, `pin` and `unpin` throw typed errors instead of resolving to false, and `put` require the file to exist.
+ *
+ * @field getValueForKey - Get the value for a given key.
+ * @field setValueForKey - Set the value for a given key.
+ * @field deleteKeyValue - Delete the value for a given key.
+ * @field getAllKeys - Get all the keys in the cache.
+ * @field getKeyFor - Get the key for a given key parameters.
+ * @field getValuesForKeys - Optional, get the values for several keys at once.
+ * @field setValuesForKeys - Optional, set several values at once.
+ * @field deleteKeyValues - Optional, delete several keys at once.
+ *
+ * @field fileExists - Check if a file exists.
+ * @field fileUnlink - Unlink a file.
+ * @field fileSize - Get the size of a file.
+ * @field listFiles - Optional, list the paths of the files in a directory.
+ * @field fileFingerprint - Optional, get a fingerprint of a file.
+ *
+ * @field metadataSchema - Optional, validate the metadata put with the entries.
+ * @field revalidator - Optional, refresh stale entries.
+ *
+ * @template TKeyParams - The type of the key parameters.
+ * @template TMetadata - The type of the metadata of the entries.
+ */
+export interface KeyValueCacheAdapter<TKeyParams, TMetadata = unknown>
+  extends KeyValueCacheOptions,
+    KeyValueStore,
+    FileSystemAdapter {
+  getKeyFor(params: TKeyParams): Promise<string | null>;
+  metadataSchema?: ZodType<TMetadata>;
+  revalidator?: Revalidator<TKeyParams, TMetadata>;
+}
+
+/**
+ * KeyValue Cache Parts
+ *
+ * An adapter split by concern, so that stores and file systems can be shared between caches.
+ *
+ * @field store - The key-value storage.
+ * @field files - The file system.
+ * @field keyFor - Get the key for a given key parameters.
+ * @field options - The cache configuration.
+ * @field metadataSchema - Optional, validate the metadata put with the entries.
+ * @field revalidator - Optional, refresh stale entries.
+ *
+ * @template TKeyParams - The type of the key parameters.
+ * @template TMetadata - The type of the metadata of the entries.
+ */
+export interface KeyValueCacheParts<TKeyParams, TMetadata = unknown> {
+  store: KeyValueStore;
+  files: FileSystemAdapter;
+  keyFor: (params: TKeyParams) => Promise<string | null>;
+  options: KeyValueCacheOptions;
+  metadataSchema?: ZodType<TMetadata>;
+  revalidator?: Revalidator<TKeyParams, TMetadata>;
+}
+
+/**
+ * Validators
+ *
+ * What an HTTP server sent along with a file, to ask it later whether the file changed.
+ *
+ * @field etag - The `ETag` header.
+ * @field lastModified - The `Last-Modified` header.
+ */
+export interface Validators {
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * Revalidation Request
+ *
+ * @field params - The key parameters of the stale entry.
+ * @field key - The key of the stale entry.
+ * @field filePath - The path of the stale file.
+ * @field validators - The validators put with the entry, if any.
+ * @field metadata - The metadata put with the entry, if any.
+ *
+ * @template TKeyParams - The type of the key parameters.
+ * @template TMetadata - The type of the metadata of the entries.
+ */
+export interface RevalidationRequest<TKeyParams, TMetadata = unknown> {
+  params: TKeyParams;
+  key: string;
+  filePath: string;
+  validators: Validators | undefined;
+  metadata: TMetadata | undefined;
+}
+
+/**
+ * Revalidation Result
+ *
+ * - not-modified: The stale file is still good, its entry is refreshed without rewriting it.
+ *   Its `expiresAt` is replaced by the given one, if any.
+ * - modified: The given file replaces the stale one, keeping the previous metadata unless new metadata is given.
+ *
+ * @template TMetadata - The type of the metadata of the entries.
+ */
+export type RevalidationResult<TMetadata = unknown> =
+  | { status: "not-modified"; validators?: Validators; expiresAt?: number }
+  | {
+      status: "modified";
+      filePath: string;
+      validators?: Validators;
+      expiresAt?: number;
+      metadata?: TMetadata;
+    };
+
+/**
+ * Refreshes a stale entry, e.g. with a conditional HTTP request.
+ *
+ * @template TKeyParams - The type of the key parameters.
+ * @template TMetadata - The type of the metadata of the entries.
+ */
+export type Revalidator<TKeyParams, TMetadata = unknown> = (
+  request: RevalidationRequest<TKeyParams, TMetadata>
+) => Promise<RevalidationResult<TMetadata>>;
+
+/**
+ * Put Options
+ *
+ * @field keepPreviousFile - When replacing an entry whose file path differs, keep the previous file on disk instead of unlinking it.
+ * @field fingerprint - The expected fingerprint of the file, e.g. a hash sent by the server. Defaults to `fileFingerprint` of the file as it is now.
+ * @field pinned - Never evict the entry, only `delete` removes it. Defaults to the replaced entry's, or false.
+ * @field priority - Entries with lower priorities are evicted first. Defaults to the replaced entry's, or 0.
+ * @field ttlMillis - The time in milliseconds since the last access after which the entry expires, instead of `evictionMillis`. A non-negative integer.
+ * @field expiresAt - When the entry expires, in milliseconds since epoch, however recently it was accessed. A positive integer.
+ * @field metadata - Stored with the entry and returned by `getEntry`, validated by `metadataSchema` when there is one.
+ * @field validators - Stored with the entry and passed to the revalidator once it is stale.
+ *
+ * @template TMetadata - The type of the metadata of the entries.
+ */
+export interface PutOptions<TMetadata = unknown> {
+  keepPreviousFile?: boolean;
+  fingerprint?: string;
+  pinned?: boolean;
+  priority?: number;
+  ttlMillis?: number;
+  expiresAt?: number;
+  metadata?: TMetadata;
+  validators?: Validators;
+}
+
+/**
+ * KeyValue Cache Entry
+ *
+ * @field filePath - The path of the cached file.
+ * @field metadata - The metadata put with the entry, or undefined if there is none or it no longer matches `metadataSchema`.
+ * @field lastAccessed - When the entry was last accessed, in milliseconds since epoch.
+ * @field size - The size of the file in bytes.
+ * @field isStale - Whether the entry expired and is being revalidated.
+ *
+ * @template TMetadata - The type of the metadata of the entries.
+ */
+export interface KeyValueCacheEntry<TMetadata = unknown> {
+  filePath: string;
+  metadata: TMetadata | undefined;
+  lastAccessed: number;
+  size: number;
+  isStale: boolean;
+}
+
+/**
+ * Garbage Collection Options
+ *
+ * @field directory - The directory to look for orphaned files in. Defaults to the `directory` option.
+ * @field keep - Return true for files that must be kept even though no entry references them, such as the store file.
+ */
+export interface GarbageCollectionOptions {
+  directory?: string;
+  keep?: (path: string) => boolean;
+}
+
+/**
+ * Garbage Collection Report
+ *
+ * @field removedFiles - The paths of the files that no entry referenced.
+ * @field removedEntries - The keys of the entries whose file was missing.
+ * @field bytesFreed - The total size of the removed files.
+ */
+export interface GarbageCollectionReport {
+  removedFiles: string[];
+  removedEntries: string[];
+  bytesFreed: number;
+}
+
+/**
+ * Put Item
+ *
+ * One of the entries to put with `putMany`.
+ *
+ * @field params - The parameters to use to get the key.
+ * @field filePath - The file path to store the value.
+ * @field options - Options for the put operation.
+ *
+ * @template TKeyParams - The type of the key parameters.
+ * @template TMetadata - The type of the metadata of the entries.
+ */
+export interface PutItem<TKeyParams, TMetadata = unknown> {
+  params: TKeyParams;
+  filePath: string;
+  options?: PutOptions<TMetadata>;
+}
+
+/**
+ * Maintenance Report
+ *
+ * @field checkedEntries - The number of entries checked by the run.
+ * @field removedEntries - The keys of the entries removed because they were expired or their file was missing.
+ * @field isRoundDone - Whether every entry was checked since the round started. The next run starts a new round.
+ */
+export interface MaintenanceReport {
+  checkedEntries: number;
+  removedEntries: string[];
+  isRoundDone: boolean;
+}
+
+/**
+ * Planned Eviction
+ *
+ * An entry that an eviction plan removes.
+ *
+ * @field key - The key of the entry.
+ * @field filePath - The path of its file.
+ * @field size - The size of its file.
+ * @field lastAccessed - When it was last accessed, in milliseconds since epoch.
+ * @field reason - Why it is evicted: `expired`, `count` or `size`.
+ */
+export interface PlannedEviction {
+  key: string;
+  filePath: string;
+  size: number;
+  lastAccessed: number;
+  reason: EvictionReason;
+}
+
+/**
+ * Eviction Plan
+ *
+ * @field evictions - The entries to evict, in eviction order.
+ * @field entriesCount - The number of entries left once the plan is applied.
+ * @field diskSize - The total size of the entries left once the plan is applied.
+ */
+export interface EvictionPlan {
+  evictions: PlannedEviction[];
+  entriesCount: number;
+  diskSize: number;
+}
+
+/**
+ * Eviction Failure
+ *
+ * @field key - The key of the entry.
+ * @field error - A `StoreDeleteError` if the entry is still in the store, or a `FileUnlinkError` if only its file is left.
+ * Its `cause` is the error thrown by the adapter, if any.
+ */
+export interface EvictionFailure {
+  key: string;
+  error: KeyValueCacheError;
+}
+
+/**
+ * Eviction Plan Report
+ *
+ * @field evicted - The keys of the entries evicted, along with their file.
+ * @field skipped - The keys of the entries that were accessed, replaced or removed since the plan was made, and were left alone.
+ * @field failed - The entries that couldn't be deleted from the store, or whose file couldn't be unlinked.
+ * @field bytesFreed - The total size of the evicted entries.
+ */
+export interface EvictionPlanReport {
+  evicted: string[];
+  skipped: string[];
+  failed: EvictionFailure[];
+  bytesFreed: number;
+}
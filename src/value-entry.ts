@@ -0,0 +1,152 @@
+import z from "zod";
+
+/**
+ * The version written by this library.
+ *
+ * - 0: `{ filePath, lastAccessed }`, unversioned.
+ * - 1: `{ filePath, lastAccessed, size, createdAt }`, unversioned.
+ * - 2: `{ version: 2, entry: { filePath, lastAccessed, size, createdAt, fingerprint?, isVerified?, pinned?, priority?, ttlMillis?, expiresAt?, metadata?, validators?, accessCount?, inflation? } }`.
+ */
+export const CURRENT_VALUE_ENTRY_VERSION = 2;
+
+const zodValueEntryV0 = z.object({
+  filePath: z.string(),
+  lastAccessed: z.number().int().positive(),
+});
+
+const zodValueEntryV1 = zodValueEntryV0.extend({
+  size: z.number().int().nonnegative(),
+  createdAt: z.number().int().positive(),
+});
+
+// Optional fields are ignored by the versions that don't know them, no need for a new version.
+const zodValueEntry = zodValueEntryV1.extend({
+  fingerprint: z.string().optional(),
+  isVerified: z.boolean().optional(),
+  pinned: z.boolean().optional(),
+  priority: z.number().optional(),
+  ttlMillis: z.number().int().nonnegative().optional(),
+  expiresAt: z.number().int().positive().optional(),
+  metadata: z.unknown().optional(),
+  validators: z
+    .object({
+      etag: z.string().optional(),
+      lastModified: z.string().optional(),
+    })
+    .optional(),
+  accessCount: z.number().int().nonnegative().optional(),
+  inflation: z.number().nonnegative().optional(),
+});
+
+/**
+ * The put options stored as they are, which must be valid for the entry to be read back.
+ */
+export const zodPutExpiry = zodValueEntry.pick({
+  ttlMillis: true,
+  expiresAt: true,
+});
+
+const zodEnvelope = z.object({
+  version: z.number().int().positive(),
+  entry: z.unknown(),
+});
+
+export type ValueEntry = z.infer<typeof zodValueEntry>;
+
+/**
+ * Migration Context
+ *
+ * What a migration may need from the cache to upgrade an entry.
+ *
+ * @field fileSize - Get the size of a file, or 0 if it doesn't exist.
+ */
+export interface MigrationContext {
+  fileSize(path: string): Promise<number>;
+}
+
+/**
+ * Upgrades an entry payload from the version it is registered under to the next one.
+ * Throws if the payload is not valid for its version.
+ */
+type Migration = (
+  entry: unknown,
+  context: MigrationContext
+) => Promise<unknown>;
+
+const migrations: Record<number, Migration> = {
+  0: async (entry, context) => {
+    const legacyEntry = zodValueEntryV0.parse(entry);
+    return {
+      ...legacyEntry,
+      size: await context.fileSize(legacyEntry.filePath),
+      // Best guess, these entries didn't record when they were created.
+      createdAt: legacyEntry.lastAccessed,
+    };
+  },
+  // Version 2 only introduced the envelope.
+  1: entry => Promise.resolve(zodValueEntryV1.parse(entry)),
+};
+
+export type DecodedValueEntry =
+  | { status: "ok"; valueEntry: ValueEntry; isMigrated: boolean }
+  | { status: "corrupt" }
+  | { status: "unknown-version"; version: number };
+
+/**
+ * Serializes an entry in the current versioned envelope.
+ */
+export function encodeValueEntry(valueEntry: ValueEntry): string {
+  return JSON.stringify({
+    version: CURRENT_VALUE_ENTRY_VERSION,
+    entry: valueEntry,
+  });
+}
+
+/**
+ * Parses a stored value, migrating older versions to the current one.
+ *
+ * Entries written by a newer version of the library are reported as `unknown-version`,
+ * so that callers can leave them alone instead of deleting them.
+ */
+export async function decodeValueEntry(
+  value: string,
+  context: MigrationContext
+): Promise<DecodedValueEntry> {
+  let json: unknown;
+  try {
+    json = JSON.parse(value);
+  } catch (err) {
+    return { status: "corrupt" };
+  }
+
+  let version: number;
+  let entry: unknown;
+
+  const envelope = zodEnvelope.safeParse(json);
+  if (envelope.success) {
+    ({ version, entry } = envelope.data);
+  } else {
+    version = zodValueEntryV1.safeParse(json).success ? 1 : 0;
+    entry = json;
+  }
+
+  if (version > CURRENT_VALUE_ENTRY_VERSION) {
+    return { status: "unknown-version", version };
+  }
+
+  const isMigrated = version < CURRENT_VALUE_ENTRY_VERSION;
+
+  try {
+    for (; version < CURRENT_VALUE_ENTRY_VERSION; version++) {
+      entry = await migrations[version](entry, context);
+    }
+
+    return {
+      status: "ok",
+      valueEntry: zodValueEntry.parse(entry),
+      isMigrated,
+    };
+  } catch (err) {
+    return { status: "corrupt" };
+  }
+}
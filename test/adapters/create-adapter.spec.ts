@@ -0,0 +1,153 @@
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  FileSystemAdapter,
+  KeyValueCache,
+  KeyValueStore,
+  createAdapter,
+} from "../../src";
+import { createJsonFileStore, createNodeFileSystem } from "../../src/node";
+
+type TestParams = { id: string };
+
+class MapStore implements KeyValueStore {
+  private readonly values = new Map<string, string>();
+
+  async getValueForKey(key: string) {
+    return Promise.resolve(this.values.get(key) ?? null);
+  }
+
+  async setValueForKey(key: string, value: string) {
+    this.values.set(key, value);
+    return Promise.resolve(true);
+  }
+
+  async deleteKeyValue(key: string) {
+    return Promise.resolve(this.values.delete(key));
+  }
+
+  async getAllKeys() {
+    return Promise.resolve([...this.values.keys()]);
+  }
+
+  async getValuesForKeys(keys: string[]) {
+    return Promise.resolve(keys.map(key => this.values.get(key) ?? null));
+  }
+
+  async setValuesForKeys(entries: [string, string][]) {
+    return Promise.resolve(
+      entries.map(([key, value]) => Boolean(this.values.set(key, value)))
+    );
+  }
+
+  async deleteKeyValues(keys: string[]) {
+    return Promise.resolve(keys.map(key => this.values.delete(key)));
+  }
+}
+
+class SizedFileSystem implements FileSystemAdapter {
+  constructor(
+    private readonly size: number,
+    private readonly listed: string[]
+  ) {}
+
+  async fileExists(_path: string) {
+    return Promise.resolve(true);
+  }
+
+  async fileUnlink(_path: string) {
+    return Promise.resolve(true);
+  }
+
+  async fileSize(_path: string) {
+    return Promise.resolve(this.size);
+  }
+
+  async listFiles(_directory: string) {
+    return Promise.resolve(this.listed);
+  }
+
+  async fileFingerprint(path: string) {
+    return Promise.resolve(`${path}:${this.size}`);
+  }
+}
+
+describe("createAdapter", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "create-adapter-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("builds an adapter from a store, a file system and options", async () => {
+    const adapter = createAdapter<TestParams>({
+      store: createJsonFileStore({ directory: join(directory, "store") }),
+      files: createNodeFileSystem(),
+      keyFor: async params => Promise.resolve(`IMG:${params.id}`),
+      options: {
+        prefix: "IMG",
+        evictionMillis: 1000 * 60,
+        maxEntries: 1,
+        maxCacheSize: 1000,
+      },
+    });
+    const cache = new KeyValueCache(adapter);
+
+    const first = join(directory, "first.jpg");
+    const second = join(directory, "second.jpg");
+    await writeFile(first, "12345");
+    await writeFile(second, "123");
+
+    expect(await cache.put({ id: "first" }, first)).toBe(true);
+    expect(await cache.get({ id: "first" })).toBe(first);
+    expect(await cache.getCurrentDiskSize()).toBe(5);
+
+    // Over maxEntries, the first entry and its file are evicted.
+    expect(await cache.put({ id: "second" }, second)).toBe(true);
+    expect(await cache.get({ id: "first" })).toBeNull();
+    expect(await adapter.fileExists(first)).toBe(false);
+    expect(await cache.getCurrentEntriesCount()).toBe(1);
+    expect(await cache.getCurrentDiskSize()).toBe(3);
+  });
+
+  it("keeps the optional methods of class instances bound", async () => {
+    const adapter = createAdapter<TestParams>({
+      store: new MapStore(),
+      files: new SizedFileSystem(10, ["/A.jpg", "/orphan.jpg"]),
+      keyFor: async params => Promise.resolve(`IMG:${params.id}`),
+      options: {
+        prefix: "IMG",
+        evictionMillis: 1000 * 60,
+        maxEntries: 10,
+        maxCacheSize: 1000,
+        directory,
+        verify: "always",
+      },
+    });
+    const cache = new KeyValueCache(adapter);
+
+    expect(
+      await cache.putMany([
+        { params: { id: "A" }, filePath: "/A.jpg" },
+        { params: { id: "B" }, filePath: "/B.jpg" },
+      ])
+    ).toEqual([true, true]);
+    expect(await cache.getMany([{ id: "A" }, { id: "B" }])).toEqual([
+      "/A.jpg",
+      "/B.jpg",
+    ]);
+    expect(await cache.collectGarbage()).toMatchObject({
+      removedFiles: ["/orphan.jpg"],
+    });
+    expect(await cache.deleteMany([{ id: "A" }, { id: "B" }])).toEqual([
+      true,
+      true,
+    ]);
+    expect(await cache.getCurrentEntriesCount()).toBe(0);
+  });
+});
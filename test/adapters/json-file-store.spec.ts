@@ -0,0 +1,141 @@
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createJsonFileStore } from "../../src/node";
+
+describe("createJsonFileStore", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "json-file-store-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("returns null for a missing key", async () => {
+    const store = createJsonFileStore({ directory });
+    expect(await store.getValueForKey("missing")).toBeNull();
+    expect(await store.getAllKeys()).toEqual([]);
+  });
+
+  it("persists values to a JSON file", async () => {
+    const store = createJsonFileStore({ directory });
+    expect(await store.setValueForKey("a", "1")).toBe(true);
+    expect(await store.setValueForKey("b", "2")).toBe(true);
+    expect(await store.deleteKeyValue("a")).toBe(true);
+
+    const content = await readFile(join(directory, "store.json"), "utf8");
+    expect(JSON.parse(content)).toEqual({ b: "2" });
+
+    const reopened = createJsonFileStore({ directory });
+    expect(await reopened.getValueForKey("a")).toBeNull();
+    expect(await reopened.getValueForKey("b")).toBe("2");
+    expect(await reopened.getAllKeys()).toEqual(["b"]);
+  });
+
+  it("starts empty when the JSON file is corrupted", async () => {
+    await writeFile(join(directory, "store.json"), "{ not json");
+    const store = createJsonFileStore({ directory });
+
+    expect(await store.getAllKeys()).toEqual([]);
+    expect(await store.setValueForKey("a", "1")).toBe(true);
+    expect(await store.getValueForKey("a")).toBe("1");
+  });
+
+  it("appends changes to a log and replays them", async () => {
+    const store = createJsonFileStore({ directory, format: "log" });
+    await store.setValueForKey("a", "1");
+    await store.setValueForKey("a", "2");
+    await store.setValueForKey("b", "3");
+    await store.deleteKeyValue("b");
+
+    const content = await readFile(join(directory, "store.log"), "utf8");
+    expect(content.trim().split("\n")).toHaveLength(4);
+
+    const reopened = createJsonFileStore({ directory, format: "log" });
+    expect(await reopened.getValueForKey("a")).toBe("2");
+    expect(await reopened.getValueForKey("b")).toBeNull();
+  });
+
+  it("ignores a log line cut short by a crash", async () => {
+    await writeFile(
+      join(directory, "store.log"),
+      `${JSON.stringify(["a", "1"])}\n["b", "2`
+    );
+    const store = createJsonFileStore({ directory, format: "log" });
+
+    expect(await store.getAllKeys()).toEqual(["a"]);
+  });
+
+  it("compacts the log after compactAfter appended lines", async () => {
+    const store = createJsonFileStore({
+      directory,
+      format: "log",
+      compactAfter: 2,
+    });
+    await store.setValueForKey("a", "1");
+    await store.setValueForKey("a", "2");
+    await store.setValueForKey("a", "3");
+
+    const content = await readFile(join(directory, "store.log"), "utf8");
+    expect(content).toBe(`${JSON.stringify(["a", "3"])}\n`);
+  });
+
+  it("compacts a log appended to across reopenings", async () => {
+    for (let run = 0; run < 5; run++) {
+      const store = createJsonFileStore({
+        directory,
+        format: "log",
+        compactAfter: 10,
+      });
+      for (let i = 0; i < 9; i++) {
+        await store.setValueForKey("a", `${run}:${i}`);
+      }
+    }
+
+    const content = await readFile(join(directory, "store.log"), "utf8");
+    expect(content.trim().split("\n").length).toBeLessThanOrEqual(10);
+
+    const reopened = createJsonFileStore({ directory, format: "log" });
+    expect(await reopened.getValueForKey("a")).toBe("4:8");
+  });
+
+  it("applies concurrent writes in call order", async () => {
+    const store = createJsonFileStore({ directory });
+    await Promise.all([
+      store.setValueForKey("a", "1"),
+      store.setValueForKey("a", "2"),
+      store.setValueForKey("b", "3"),
+    ]);
+
+    const reopened = createJsonFileStore({ directory });
+    expect(await reopened.getValueForKey("a")).toBe("2");
+    expect(await reopened.getValueForKey("b")).toBe("3");
+  });
+
+  it("writes a batch of changes at once", async () => {
+    const store = createJsonFileStore({ directory, format: "log" });
+    await store.setValueForKey("c", "0");
+
+    expect(
+      await store.setValuesForKeys?.([
+        ["a", "1"],
+        ["b", "2"],
+      ])
+    ).toEqual([true, true]);
+    expect(await store.deleteKeyValues?.(["c"])).toEqual([true]);
+    expect(await store.getValuesForKeys?.(["a", "b", "c"])).toEqual([
+      "1",
+      "2",
+      null,
+    ]);
+
+    const content = await readFile(join(directory, "store.log"), "utf8");
+    expect(content.trim().split("\n")).toHaveLength(4);
+
+    const reopened = createJsonFileStore({ directory, format: "log" });
+    expect(await reopened.getAllKeys()).toEqual(["a", "b"]);
+  });
+});
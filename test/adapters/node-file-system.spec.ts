@@ -0,0 +1,56 @@
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createNodeFileSystem } from "../../src/node";
+
+describe("createNodeFileSystem", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "node-file-system-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("checks, sizes and unlinks files", async () => {
+    const files = createNodeFileSystem();
+    const filePath = join(directory, "image.jpg");
+    await writeFile(filePath, "12345");
+
+    expect(await files.fileExists(filePath)).toBe(true);
+    expect(await files.fileSize(filePath)).toBe(5);
+    expect(await files.fileUnlink(filePath)).toBe(true);
+    expect(await files.fileExists(filePath)).toBe(false);
+  });
+
+  it("returns false when unlinking a missing file", async () => {
+    const files = createNodeFileSystem();
+    expect(await files.fileUnlink(join(directory, "missing.jpg"))).toBe(false);
+  });
+
+  it("lists the files of a directory", async () => {
+    const files = createNodeFileSystem();
+    await writeFile(join(directory, "a.jpg"), "1");
+    await mkdir(join(directory, "nested"));
+
+    expect(await files.listFiles?.(directory)).toEqual([
+      join(directory, "a.jpg"),
+    ]);
+    expect(await files.listFiles?.(join(directory, "missing"))).toEqual([]);
+  });
+
+  it("fingerprints files by content or by stats", async () => {
+    const filePath = join(directory, "image.jpg");
+    await writeFile(filePath, "12345");
+
+    const hashed = createNodeFileSystem();
+    const before = await hashed.fileFingerprint?.(filePath);
+    await writeFile(filePath, "12346");
+    expect(await hashed.fileFingerprint?.(filePath)).not.toBe(before);
+
+    const statted = createNodeFileSystem({ fingerprint: "stat" });
+    expect(await statted.fileFingerprint?.(filePath)).toMatch(/^5-/);
+  });
+});
@@ -1,4 +1,20 @@
-import { KeyValueCache, KeyValueCacheAdapter } from "../src";
+import z from "zod";
+import {
+  CacheClosedError,
+  CorruptEntryError,
+  FileMissingError,
+  FileUnlinkError,
+  KeyUnresolvableError,
+  KeyValueCache,
+  KeyValueCacheAdapter,
+  StoreDeleteError,
+  StoreWriteError,
+  UnknownVersionError,
+  fifoPolicy,
+  gdsfPolicy,
+  lfuPolicy,
+  lruPolicy,
+} from "../src";
 
 type TestParams = { id: string };
 
@@ -10,10 +26,32 @@ const MOCK_NULL_VALUE_KEY = "null-value";
 const MOCK_SET_DELETE_FALSE_KEY = "set-delete-false";
 const MOCK_FILE_SIZE = 1000;
 
+// Runs an operation with the clock set to the given time.
+async function atTime<T>(time: number, operation: () => Promise<T>) {
+  jest.spyOn(Date, "now").mockReturnValue(time);
+  return operation();
+}
+
 function getTimestamp(): number {
   return globalThis.performance?.now?.() ?? Date.now();
 }
 
+type StoredEntry = {
+  version: number;
+  entry: {
+    filePath: string;
+    lastAccessed: number;
+    size: number;
+    createdAt: number;
+  };
+};
+
+type StoredIndex = {
+  entriesCount: number;
+  diskSize: number;
+  entries: [string, number, number, number, boolean][];
+};
+
 const EVICTION_MILLIS = 1000 * 60 * 60 * 24; // 1 day
 const MAX_ENTRIES = 100;
 const MAX_CACHE_SIZE = 10_000_000;
@@ -93,6 +131,8 @@ describe("KeyValueCache", () => {
 
   afterEach(() => {
     dictionary = {};
+    jest.restoreAllMocks();
+    jest.useRealTimers();
   });
 
   it("get awaits to boot", async () => {
@@ -310,6 +350,93 @@ describe("KeyValueCache", () => {
     expect(dictionary[oldKey]).toBeUndefined();
   });
 
+  it("put evicts least recently used entries when maxEntries is exceeded", async () => {
+    const now = Date.now();
+    const oldestKey = `${MOCK_PREFIX}:Oldest`;
+    const olderKey = `${MOCK_PREFIX}:Older`;
+    dictionary[oldestKey] =
+      `{ "filePath": "${MOCK_FILE_PATH}", "lastAccessed": ${now - 2000} }`;
+    dictionary[olderKey] =
+      `{ "filePath": "${MOCK_FILE_PATH}", "lastAccessed": ${now - 1000} }`;
+
+    adapter.maxEntries = 2;
+    const newCache = new KeyValueCache(adapter);
+
+    const newKey = `${MOCK_PREFIX}:NewKey`;
+    const result = await newCache.put({ id: newKey }, MOCK_FILE_PATH);
+    expect(result).toBe(true);
+    expect(dictionary[oldestKey]).toBeUndefined();
+    expect(dictionary[olderKey]).toBeDefined();
+    expect(dictionary[newKey]).toBeDefined();
+    expect(await newCache.getCurrentEntriesCount()).toBe(2);
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(adapter.fileUnlink).toHaveBeenCalledTimes(1);
+  });
+
+  it("put evicts least recently used entries until under maxCacheSize", async () => {
+    const now = Date.now();
+    const oldestKey = `${MOCK_PREFIX}:Oldest`;
+    const olderKey = `${MOCK_PREFIX}:Older`;
+    dictionary[oldestKey] =
+      `{ "filePath": "${MOCK_FILE_PATH}", "lastAccessed": ${now - 2000} }`;
+    dictionary[olderKey] =
+      `{ "filePath": "${MOCK_FILE_PATH}", "lastAccessed": ${now - 1000} }`;
+
+    adapter.maxCacheSize = MOCK_FILE_SIZE;
+    const newCache = new KeyValueCache(adapter);
+
+    const newKey = `${MOCK_PREFIX}:NewKey`;
+    const result = await newCache.put({ id: newKey }, MOCK_FILE_PATH);
+    expect(result).toBe(true);
+    expect(dictionary[oldestKey]).toBeUndefined();
+    expect(dictionary[olderKey]).toBeUndefined();
+    expect(dictionary[newKey]).toBeDefined();
+    expect(await newCache.getCurrentEntriesCount()).toBe(1);
+    expect(await newCache.getCurrentDiskSize()).toBe(MOCK_FILE_SIZE);
+  });
+
+  it("put replaces an existing entry and unlinks the previous file", async () => {
+    const key = `${MOCK_PREFIX}:TheKey`;
+    const newFilePath = "/mock/path/image-resized.jpg";
+    await cache.put({ id: key }, MOCK_FILE_PATH);
+
+    const result = await cache.put({ id: key }, newFilePath);
+    expect(result).toBe(true);
+    expect(dictionary[key]).toContain(`"filePath":"${newFilePath}"`);
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(adapter.fileUnlink).toHaveBeenCalledWith(MOCK_FILE_PATH);
+    expect(await cache.getCurrentEntriesCount()).toBe(1);
+    expect(await cache.getCurrentDiskSize()).toBe(MOCK_FILE_SIZE);
+  });
+
+  it("put keeps the previous file when keepPreviousFile is set", async () => {
+    const key = `${MOCK_PREFIX}:TheKey`;
+    const newFilePath = "/mock/path/image-resized.jpg";
+    await cache.put({ id: key }, MOCK_FILE_PATH);
+
+    const result = await cache.put({ id: key }, newFilePath, {
+      keepPreviousFile: true,
+    });
+    expect(result).toBe(true);
+    expect(dictionary[key]).toContain(`"filePath":"${newFilePath}"`);
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(adapter.fileUnlink).not.toHaveBeenCalled();
+    expect(await cache.getCurrentEntriesCount()).toBe(1);
+    expect(await cache.getCurrentDiskSize()).toBe(MOCK_FILE_SIZE);
+  });
+
+  it("put with the same file path does not unlink or double count", async () => {
+    const key = `${MOCK_PREFIX}:TheKey`;
+    await cache.put({ id: key }, MOCK_FILE_PATH);
+
+    const result = await cache.put({ id: key }, MOCK_FILE_PATH);
+    expect(result).toBe(true);
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(adapter.fileUnlink).not.toHaveBeenCalled();
+    expect(await cache.getCurrentEntriesCount()).toBe(1);
+    expect(await cache.getCurrentDiskSize()).toBe(MOCK_FILE_SIZE);
+  });
+
   it("delete awaits to boot", async () => {
     let getAllKeysTimestamp = 0;
     let getKeyForTimestamp = 0;
@@ -559,4 +686,2162 @@ describe("KeyValueCache", () => {
     expect(dictionary[keyNoFile]).toBeUndefined(); // The inexistent file gets deleted.
     expect(dictionary[key]).toBeDefined();
   });
+
+  it("put records the file size and creation time in the entry", async () => {
+    const key = `${MOCK_PREFIX}:TheKey`;
+    await cache.put({ id: key }, MOCK_FILE_PATH);
+
+    const { entry } = JSON.parse(dictionary[key]) as StoredEntry;
+    expect(entry.size).toBe(MOCK_FILE_SIZE);
+    expect(entry.createdAt).toBe(entry.lastAccessed);
+  });
+
+  it("KeyValueCache boots from stored sizes without touching the file system", async () => {
+    const now = Date.now();
+    const key = `${MOCK_PREFIX}:TheKey`;
+    dictionary[key] = JSON.stringify({
+      version: 2,
+      entry: {
+        filePath: MOCK_FILE_PATH,
+        lastAccessed: now,
+        size: 1234,
+        createdAt: now,
+      },
+    });
+
+    const newCache = new KeyValueCache(adapter);
+
+    expect(await newCache.getCurrentEntriesCount()).toBe(1);
+    expect(await newCache.getCurrentDiskSize()).toBe(1234);
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(adapter.fileExists).not.toHaveBeenCalled();
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(adapter.fileSize).not.toHaveBeenCalled();
+  });
+
+  it("get upgrades legacy entries in place", async () => {
+    const lastAccessed = Date.now() - 1;
+    const key = "TheKey";
+    dictionary[key] =
+      `{ "filePath": "${MOCK_FILE_PATH}", "lastAccessed": ${lastAccessed} }`;
+
+    const result = await cache.get({ id: key });
+    expect(result).toBe(MOCK_FILE_PATH);
+
+    const { version, entry } = JSON.parse(dictionary[key]) as StoredEntry;
+    expect(version).toBe(2);
+    expect(entry.size).toBe(MOCK_FILE_SIZE);
+    expect(entry.createdAt).toBe(lastAccessed);
+  });
+
+  it("get upgrades unversioned entries that already record their size", async () => {
+    const now = Date.now();
+    const key = "TheKey";
+    dictionary[key] = JSON.stringify({
+      filePath: MOCK_FILE_PATH,
+      lastAccessed: now,
+      size: 1234,
+      createdAt: now,
+    });
+
+    const result = await cache.get({ id: key });
+    expect(result).toBe(MOCK_FILE_PATH);
+
+    const { version, entry } = JSON.parse(dictionary[key]) as StoredEntry;
+    expect(version).toBe(2);
+    expect(entry.size).toBe(1234);
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(adapter.fileSize).not.toHaveBeenCalled();
+  });
+
+  it("entries from an unknown future version are left alone", async () => {
+    const key = `${MOCK_PREFIX}:TheKey`;
+    const value = JSON.stringify({
+      version: 999,
+      entry: { somethingNew: true },
+    });
+    dictionary[key] = value;
+
+    const newCache = new KeyValueCache(adapter);
+    expect(await newCache.getCurrentDiskSize()).toBe(0);
+
+    expect(await newCache.get({ id: key })).toBeNull();
+    expect(await newCache.cleanExpiredEntries()).toBe(false);
+    expect(await newCache.delete({ id: key })).toBe(false);
+    expect(dictionary[key]).toBe(value);
+  });
+
+  it("entries from an unknown future version don't count toward maxEntries", async () => {
+    adapter.maxEntries = 3;
+    for (const id of ["X", "Y", "Z"]) {
+      dictionary[`${MOCK_PREFIX}:${id}`] = JSON.stringify({
+        version: 999,
+        entry: { somethingNew: true },
+      });
+    }
+
+    const newCache = new KeyValueCache(adapter);
+    expect(await newCache.getCurrentEntriesCount()).toBe(0);
+
+    for (const id of ["A", "B", "C"]) {
+      await newCache.put({ id: `${MOCK_PREFIX}:${id}` }, MOCK_FILE_PATH);
+      expect(await newCache.get({ id: `${MOCK_PREFIX}:${id}` })).toBe(
+        MOCK_FILE_PATH
+      );
+    }
+    expect(await newCache.getCurrentEntriesCount()).toBe(3);
+    expect(Object.keys(dictionary)).toHaveLength(6);
+  });
+
+  it("putting over an entry from an unknown future version counts it", async () => {
+    const key = `${MOCK_PREFIX}:A`;
+    dictionary[key] = JSON.stringify({
+      version: 99,
+      entry: { somethingNew: true },
+    });
+    const newCache = new KeyValueCache(adapter);
+    expect(await newCache.getCurrentEntriesCount()).toBe(0);
+
+    expect(await newCache.put({ id: key }, MOCK_FILE_PATH)).toBe(true);
+
+    expect(await newCache.getCurrentEntriesCount()).toBe(1);
+    expect(await newCache.getCurrentDiskSize()).toBe(MOCK_FILE_SIZE);
+  });
+
+  it("get deletes versioned entries that fail validation", async () => {
+    const key = "TheKey";
+    dictionary[key] = JSON.stringify({
+      version: 2,
+      entry: { filePath: MOCK_FILE_PATH },
+    });
+
+    expect(await cache.get({ id: key })).toBeNull();
+    expect(dictionary[key]).toBeUndefined();
+  });
+
+  it("get decrements diskSize by the stored size when the file is gone", async () => {
+    const now = Date.now();
+    const key = `${MOCK_PREFIX}:TheKey`;
+    dictionary[key] = JSON.stringify({
+      version: 2,
+      entry: {
+        filePath: MOCK_FILE_DOES_NOT_EXIST_PATH,
+        lastAccessed: now,
+        size: 1234,
+        createdAt: now,
+      },
+    });
+    const newCache = new KeyValueCache(adapter);
+    expect(await newCache.getCurrentDiskSize()).toBe(1234);
+
+    const result = await newCache.get({ id: key });
+    expect(result).toBeNull();
+    expect(dictionary[key]).toBeUndefined();
+    expect(await newCache.getCurrentEntriesCount()).toBe(0);
+    expect(await newCache.getCurrentDiskSize()).toBe(0);
+  });
+
+  it("useIndex maintains an index and boots from it without scanning keys", async () => {
+    adapter.useIndex = true;
+    const indexedCache = new KeyValueCache(adapter);
+    await indexedCache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH);
+    await indexedCache.put({ id: `${MOCK_PREFIX}:B` }, MOCK_FILE_PATH);
+
+    const index = JSON.parse(
+      dictionary[`${MOCK_PREFIX}__index__`]
+    ) as StoredIndex;
+    expect(index.entriesCount).toBe(2);
+    expect(index.diskSize).toBe(MOCK_FILE_SIZE * 2);
+    expect(index.entries.map(([key]) => key)).toEqual([
+      `${MOCK_PREFIX}:A`,
+      `${MOCK_PREFIX}:B`,
+    ]);
+
+    adapter.getAllKeys.mockClear();
+    const newCache = new KeyValueCache(adapter);
+    expect(await newCache.getCurrentEntriesCount()).toBe(2);
+    expect(await newCache.getCurrentDiskSize()).toBe(MOCK_FILE_SIZE * 2);
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(adapter.getAllKeys).not.toHaveBeenCalled();
+  });
+
+  it("useIndex evicts least recently used entries without scanning keys", async () => {
+    adapter.useIndex = true;
+    adapter.maxEntries = 2;
+    const indexedCache = new KeyValueCache(adapter);
+    await indexedCache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH);
+    await indexedCache.put({ id: `${MOCK_PREFIX}:B` }, MOCK_FILE_PATH);
+    await indexedCache.get({ id: `${MOCK_PREFIX}:A` });
+
+    adapter.getAllKeys.mockClear();
+    await indexedCache.put({ id: `${MOCK_PREFIX}:C` }, MOCK_FILE_PATH);
+
+    expect(dictionary[`${MOCK_PREFIX}:A`]).toBeDefined();
+    expect(dictionary[`${MOCK_PREFIX}:B`]).toBeUndefined();
+    expect(dictionary[`${MOCK_PREFIX}:C`]).toBeDefined();
+    expect(await indexedCache.getCurrentEntriesCount()).toBe(2);
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(adapter.getAllKeys).not.toHaveBeenCalled();
+  });
+
+  it("useIndex keeps writing the index after a write of it failed", async () => {
+    adapter.useIndex = true;
+    const indexedCache = new KeyValueCache(adapter);
+    await indexedCache.ready();
+    const setValueForKey = adapter.setValueForKey.getMockImplementation()!;
+    adapter.setValueForKey.mockImplementationOnce(setValueForKey);
+    adapter.setValueForKey.mockRejectedValueOnce(new Error("transient"));
+
+    await expect(
+      indexedCache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH)
+    ).rejects.toThrow("transient");
+
+    expect(
+      await indexedCache.put({ id: `${MOCK_PREFIX}:B` }, MOCK_FILE_PATH)
+    ).toBe(true);
+    expect(await indexedCache.get({ id: `${MOCK_PREFIX}:A` })).toBe(
+      MOCK_FILE_PATH
+    );
+    await indexedCache.flush();
+    const index = JSON.parse(
+      dictionary[`${MOCK_PREFIX}__index__`]
+    ) as StoredIndex;
+    expect(index.entries.map(([key]) => key)).toEqual([
+      `${MOCK_PREFIX}:B`,
+      `${MOCK_PREFIX}:A`,
+    ]);
+  });
+
+  it("useIndex persists the index changes of hits on flush and close, not on every hit", async () => {
+    let time = Date.now();
+    adapter.now = () => time++;
+    adapter.useIndex = true;
+    const indexedCache = new KeyValueCache(adapter);
+    const indexKey = `${MOCK_PREFIX}__index__`;
+    await indexedCache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH);
+    await indexedCache.put({ id: `${MOCK_PREFIX}:B` }, MOCK_FILE_PATH);
+    adapter.setValueForKey.mockClear();
+
+    await indexedCache.get({ id: `${MOCK_PREFIX}:A` });
+    await indexedCache.getMany([
+      { id: `${MOCK_PREFIX}:B` },
+      { id: `${MOCK_PREFIX}:A` },
+    ]);
+
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(adapter.setValueForKey).not.toHaveBeenCalledWith(
+      indexKey,
+      expect.anything()
+    );
+
+    await indexedCache.flush();
+    expect(
+      (JSON.parse(dictionary[indexKey]) as StoredIndex).entries.map(
+        ([key]) => key
+      )
+    ).toEqual([`${MOCK_PREFIX}:B`, `${MOCK_PREFIX}:A`]);
+
+    await indexedCache.get({ id: `${MOCK_PREFIX}:B` });
+    await indexedCache.close();
+    expect(
+      (JSON.parse(dictionary[indexKey]) as StoredIndex).entries.map(
+        ([key]) => key
+      )
+    ).toEqual([`${MOCK_PREFIX}:A`, `${MOCK_PREFIX}:B`]);
+  });
+
+  it("useIndex coalesces the index writes of concurrent changes", async () => {
+    adapter.useIndex = true;
+    const indexedCache = new KeyValueCache(adapter);
+    await indexedCache.ready();
+    adapter.setValueForKey.mockClear();
+
+    await Promise.all(
+      ["A", "B", "C", "D", "E"].map(id =>
+        indexedCache.put({ id: `${MOCK_PREFIX}:${id}` }, MOCK_FILE_PATH)
+      )
+    );
+
+    const indexWrites = adapter.setValueForKey.mock.calls.filter(
+      ([key]) => key === `${MOCK_PREFIX}__index__`
+    );
+    expect(indexWrites.length).toBeLessThan(5);
+    expect(
+      (JSON.parse(dictionary[`${MOCK_PREFIX}__index__`]) as StoredIndex)
+        .entriesCount
+    ).toBe(5);
+  });
+
+  it("useIndex rebuilds an inconsistent index from a full scan", async () => {
+    const now = Date.now();
+    const key = `${MOCK_PREFIX}:TheKey`;
+    dictionary[key] = JSON.stringify({
+      version: 2,
+      entry: {
+        filePath: MOCK_FILE_PATH,
+        lastAccessed: now,
+        size: 1234,
+        createdAt: now,
+      },
+    });
+    dictionary[`${MOCK_PREFIX}__index__`] = JSON.stringify({
+      version: 2,
+      entriesCount: 5,
+      diskSize: 0,
+      entries: [],
+    });
+
+    adapter.useIndex = true;
+    const newCache = new KeyValueCache(adapter);
+
+    expect(await newCache.getCurrentEntriesCount()).toBe(1);
+    expect(await newCache.getCurrentDiskSize()).toBe(1234);
+    const index = JSON.parse(
+      dictionary[`${MOCK_PREFIX}__index__`]
+    ) as StoredIndex;
+    expect(index.entriesCount).toBe(1);
+    expect(index.entries[0][0]).toBe(key);
+  });
+
+  it("useIndex rebuilds the index when an indexed entry vanished", async () => {
+    adapter.useIndex = true;
+    adapter.maxEntries = 2;
+    const indexedCache = new KeyValueCache(adapter);
+    await indexedCache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH, {
+      expiresAt: Date.now(),
+    });
+    await indexedCache.put({ id: `${MOCK_PREFIX}:B` }, MOCK_FILE_PATH);
+    delete dictionary[`${MOCK_PREFIX}:A`];
+
+    await indexedCache.cleanExpiredEntries();
+
+    expect(await indexedCache.getCurrentEntriesCount()).toBe(1);
+    expect(await indexedCache.getCurrentDiskSize()).toBe(MOCK_FILE_SIZE);
+    const index = JSON.parse(
+      dictionary[`${MOCK_PREFIX}__index__`]
+    ) as StoredIndex;
+    expect(index.entriesCount).toBe(1);
+  });
+
+  it("concurrent puts over the limit run a single eviction pass", async () => {
+    adapter.maxEntries = 2;
+    await cache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH);
+    await cache.put({ id: `${MOCK_PREFIX}:B` }, MOCK_FILE_PATH);
+
+    const results = await Promise.all([
+      cache.put({ id: `${MOCK_PREFIX}:C` }, MOCK_FILE_PATH),
+      cache.put({ id: `${MOCK_PREFIX}:D` }, MOCK_FILE_PATH),
+    ]);
+
+    expect(results).toEqual([true, true]);
+    expect(Object.keys(dictionary).sort()).toEqual([
+      `${MOCK_PREFIX}:C`,
+      `${MOCK_PREFIX}:D`,
+    ]);
+    expect(await cache.getCurrentEntriesCount()).toBe(2);
+    expect(await cache.getCurrentDiskSize()).toBe(MOCK_FILE_SIZE * 2);
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(adapter.fileUnlink).toHaveBeenCalledTimes(2);
+  });
+
+  it("get does not bring back an entry deleted concurrently", async () => {
+    const key = `${MOCK_PREFIX}:TheKey`;
+    await cache.put({ id: key }, MOCK_FILE_PATH);
+
+    const [getResult, deleteResult] = await Promise.all([
+      cache.get({ id: key }),
+      cache.delete({ id: key }),
+    ]);
+
+    expect(getResult).toBe(MOCK_FILE_PATH);
+    expect(deleteResult).toBe(true);
+    expect(dictionary[key]).toBeUndefined();
+    expect(await cache.getCurrentEntriesCount()).toBe(0);
+    expect(await cache.getCurrentDiskSize()).toBe(0);
+  });
+
+  it("delete then get of the same key is a miss", async () => {
+    const key = `${MOCK_PREFIX}:TheKey`;
+    await cache.put({ id: key }, MOCK_FILE_PATH);
+
+    const [deleteResult, getResult] = await Promise.all([
+      cache.delete({ id: key }),
+      cache.get({ id: key }),
+    ]);
+
+    expect(deleteResult).toBe(true);
+    expect(getResult).toBeNull();
+    expect(dictionary[key]).toBeUndefined();
+  });
+
+  it("concurrent cleanExpiredEntries calls share a single pass", async () => {
+    const lastAccessed = Date.now() - EVICTION_MILLIS - 1;
+    const key = `${MOCK_PREFIX}:TheKey`;
+    dictionary[key] =
+      `{ "filePath": "${MOCK_FILE_PATH}", "lastAccessed": ${lastAccessed} }`;
+    const newCache = new KeyValueCache(adapter);
+
+    const results = await Promise.all([
+      newCache.cleanExpiredEntries(),
+      newCache.cleanExpiredEntries(),
+    ]);
+
+    expect(results).toEqual([true, true]);
+    expect(dictionary[key]).toBeUndefined();
+    expect(await newCache.getCurrentEntriesCount()).toBe(0);
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(adapter.fileUnlink).toHaveBeenCalledTimes(1);
+  });
+
+  it("eviction skips entries accessed while the pass is running", async () => {
+    let time = Date.now();
+    adapter.now = () => time;
+    adapter.maxEntries = 2;
+    const lruCache = new KeyValueCache(adapter);
+    await lruCache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH);
+    time += 2;
+    await lruCache.put({ id: `${MOCK_PREFIX}:B` }, MOCK_FILE_PATH);
+    time += 2;
+
+    await Promise.all([
+      lruCache.put({ id: `${MOCK_PREFIX}:C` }, MOCK_FILE_PATH),
+      lruCache.get({ id: `${MOCK_PREFIX}:A` }),
+    ]);
+
+    expect(dictionary[`${MOCK_PREFIX}:A`]).toBeDefined();
+    expect(dictionary[`${MOCK_PREFIX}:B`]).toBeUndefined();
+    expect(dictionary[`${MOCK_PREFIX}:C`]).toBeDefined();
+    expect(await lruCache.getCurrentEntriesCount()).toBe(2);
+  });
+
+  it("getOrCreate produces and puts the file on a miss", async () => {
+    const key = `${MOCK_PREFIX}:TheKey`;
+    const producer = jest.fn().mockResolvedValue(MOCK_FILE_PATH);
+
+    const result = await cache.getOrCreate({ id: key }, producer);
+
+    expect(result).toBe(MOCK_FILE_PATH);
+    expect(producer).toHaveBeenCalledWith({ id: key });
+    expect(dictionary[key]).toContain(`"filePath":"${MOCK_FILE_PATH}"`);
+    expect(await cache.getCurrentEntriesCount()).toBe(1);
+  });
+
+  it("getOrCreate returns the cached file without producing on a hit", async () => {
+    const key = `${MOCK_PREFIX}:TheKey`;
+    await cache.put({ id: key }, MOCK_FILE_PATH);
+    const producer = jest.fn().mockResolvedValue("/mock/path/other.jpg");
+
+    const result = await cache.getOrCreate({ id: key }, producer);
+
+    expect(result).toBe(MOCK_FILE_PATH);
+    expect(producer).not.toHaveBeenCalled();
+  });
+
+  it("getOrCreate shares one producer run between concurrent callers", async () => {
+    const key = `${MOCK_PREFIX}:TheKey`;
+    let resolveProducer!: (filePath: string) => void;
+    const producer = jest.fn().mockImplementation(
+      () =>
+        new Promise<string>(resolve => {
+          resolveProducer = resolve;
+        })
+    );
+
+    const results = Promise.all([
+      cache.getOrCreate({ id: key }, producer),
+      cache.getOrCreate({ id: key }, producer),
+      cache.getOrCreate({ id: key }, producer),
+    ]);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    resolveProducer(MOCK_FILE_PATH);
+
+    expect(await results).toEqual([
+      MOCK_FILE_PATH,
+      MOCK_FILE_PATH,
+      MOCK_FILE_PATH,
+    ]);
+    expect(producer).toHaveBeenCalledTimes(1);
+    expect(await cache.getCurrentEntriesCount()).toBe(1);
+  });
+
+  it("getOrCreate does not cache producer failures", async () => {
+    const key = `${MOCK_PREFIX}:TheKey`;
+    const producer = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("download failed"))
+      .mockResolvedValueOnce(MOCK_FILE_PATH);
+
+    await expect(cache.getOrCreate({ id: key }, producer)).rejects.toThrow(
+      "download failed"
+    );
+    expect(dictionary[key]).toBeUndefined();
+
+    const result = await cache.getOrCreate({ id: key }, producer);
+    expect(result).toBe(MOCK_FILE_PATH);
+    expect(producer).toHaveBeenCalledTimes(2);
+  });
+
+  it("getOrCreate produces without caching if key is falsy", async () => {
+    const producer = jest.fn().mockResolvedValue(MOCK_FILE_PATH);
+
+    const result = await cache.getOrCreate(
+      { id: MOCK_NOT_FOUND_KEY },
+      producer
+    );
+
+    expect(result).toBe(MOCK_FILE_PATH);
+    expect(await cache.getCurrentEntriesCount()).toBe(0);
+  });
+
+  it("KeyValueCache accepts separate parts sharing one store and file system", async () => {
+    const options = {
+      evictionMillis: EVICTION_MILLIS,
+      maxEntries: MAX_ENTRIES,
+      maxCacheSize: MAX_CACHE_SIZE,
+    };
+    const images = new KeyValueCache<TestParams>({
+      store: adapter,
+      files: adapter,
+      keyFor: async params => Promise.resolve(`images:${params.id}`),
+      options: { ...options, prefix: "images" },
+    });
+    const tracks = new KeyValueCache<TestParams>({
+      store: adapter,
+      files: adapter,
+      keyFor: async params => Promise.resolve(`tracks:${params.id}`),
+      options: { ...options, prefix: "tracks" },
+    });
+
+    await images.put({ id: "a" }, MOCK_FILE_PATH);
+    await tracks.put({ id: "a" }, MOCK_FILE_PATH);
+    await tracks.put({ id: "b" }, MOCK_FILE_PATH);
+
+    expect(await images.get({ id: "a" })).toBe(MOCK_FILE_PATH);
+    expect(dictionary["images:a"]).toBeDefined();
+    expect(dictionary["tracks:a"]).toBeDefined();
+    expect(await images.getCurrentEntriesCount()).toBe(1);
+    expect(await tracks.getCurrentEntriesCount()).toBe(2);
+  });
+
+  it("configure changes limits at runtime and evicts right away", async () => {
+    await cache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH);
+    await cache.put({ id: `${MOCK_PREFIX}:B` }, MOCK_FILE_PATH);
+    await cache.put({ id: `${MOCK_PREFIX}:C` }, MOCK_FILE_PATH);
+
+    await cache.configure({ maxEntries: 1 });
+
+    expect(await cache.getCurrentEntriesCount()).toBe(1);
+    expect(dictionary[`${MOCK_PREFIX}:C`]).toBeDefined();
+
+    await cache.configure({ maxCacheSize: 0 });
+
+    expect(await cache.getCurrentEntriesCount()).toBe(0);
+    expect(await cache.getCurrentDiskSize()).toBe(0);
+  });
+
+  it("configure evicts expired entries right away when evictionMillis is lowered", async () => {
+    let time = 1_000_000;
+    adapter.now = () => time;
+    const configuredCache = new KeyValueCache(adapter);
+    await configuredCache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH);
+    time += 1000;
+    await configuredCache.put({ id: `${MOCK_PREFIX}:B` }, MOCK_FILE_PATH);
+
+    await configuredCache.configure({ evictionMillis: 500 });
+
+    expect(dictionary[`${MOCK_PREFIX}:A`]).toBeUndefined();
+    expect(dictionary[`${MOCK_PREFIX}:B`]).toBeDefined();
+    expect(await configuredCache.getCurrentEntriesCount()).toBe(1);
+  });
+
+  it("changes made to a flat adapter keep applying after configure", async () => {
+    await cache.configure({ maxCacheSize: MAX_CACHE_SIZE * 2 });
+    adapter.maxEntries = 1;
+
+    await cache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH);
+    await cache.put({ id: `${MOCK_PREFIX}:B` }, MOCK_FILE_PATH);
+
+    expect(await cache.getCurrentEntriesCount()).toBe(1);
+    expect(dictionary[`${MOCK_PREFIX}:B`]).toBeDefined();
+  });
+
+  it("on emits hit, miss and put events", async () => {
+    const events: string[] = [];
+    cache.on("hit", ({ key }) => events.push(`hit:${key}`));
+    cache.on("miss", ({ key, reason }) => events.push(`miss:${key}:${reason}`));
+    cache.on("put", ({ key, isReplaced }) =>
+      events.push(`put:${key}:${isReplaced}`)
+    );
+
+    await cache.get({ id: MOCK_NOT_FOUND_KEY });
+    await cache.get({ id: `${MOCK_PREFIX}:A` });
+    await cache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH);
+    await cache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH);
+    await cache.get({ id: `${MOCK_PREFIX}:A` });
+
+    expect(events).toEqual([
+      "miss:null:unresolvable",
+      `miss:${MOCK_PREFIX}:A:not-found`,
+      `put:${MOCK_PREFIX}:A:false`,
+      `put:${MOCK_PREFIX}:A:true`,
+      `hit:${MOCK_PREFIX}:A`,
+    ]);
+  });
+
+  it("on emits evict events with their reason", async () => {
+    const reasons: string[] = [];
+    cache.on("evict", ({ key, reason }) => reasons.push(`${key}:${reason}`));
+
+    const expired = Date.now() - EVICTION_MILLIS - 1000;
+    dictionary[`${MOCK_PREFIX}:old`] = JSON.stringify({
+      version: 2,
+      entry: {
+        filePath: MOCK_FILE_PATH,
+        lastAccessed: expired,
+        size: MOCK_FILE_SIZE,
+        createdAt: expired,
+      },
+    });
+    await cache.get({ id: `${MOCK_PREFIX}:old` });
+
+    await cache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH);
+    await cache.put({ id: `${MOCK_PREFIX}:B` }, MOCK_FILE_PATH);
+    await cache.configure({ maxEntries: 1 });
+    await cache.delete({ id: `${MOCK_PREFIX}:B` });
+
+    expect(reasons).toEqual([
+      `${MOCK_PREFIX}:old:expired`,
+      `${MOCK_PREFIX}:A:count`,
+      `${MOCK_PREFIX}:B:manual`,
+    ]);
+  });
+
+  it("on emits corrupt and orphan events for invalid entries", async () => {
+    const corrupt = jest.fn();
+    const orphan = jest.fn();
+    cache.on("corrupt", corrupt);
+    cache.on("orphan", orphan);
+
+    await cache.put(
+      { id: `${MOCK_PREFIX}:gone` },
+      MOCK_FILE_DOES_NOT_EXIST_PATH
+    );
+    dictionary[`${MOCK_PREFIX}:corrupt`] = "{not json";
+
+    expect(await cache.get({ id: `${MOCK_PREFIX}:corrupt` })).toBeNull();
+    expect(await cache.get({ id: `${MOCK_PREFIX}:gone` })).toBeNull();
+
+    expect(corrupt).toHaveBeenCalledWith({
+      key: `${MOCK_PREFIX}:corrupt`,
+      filePath: null,
+      size: null,
+    });
+    expect(orphan).toHaveBeenCalledWith({
+      key: `${MOCK_PREFIX}:gone`,
+      filePath: MOCK_FILE_DOES_NOT_EXIST_PATH,
+      size: 0,
+    });
+  });
+
+  it("on emits error events when the store or the file system fails", async () => {
+    const operations: string[] = [];
+    cache.on("error", ({ operation }) => operations.push(operation));
+
+    await cache.put({ id: MOCK_SET_DELETE_FALSE_KEY }, MOCK_FILE_PATH);
+    await cache.put({ id: `${MOCK_PREFIX}:A` }, "/mock/path/locked.jpg");
+    await cache.delete({ id: `${MOCK_PREFIX}:A` });
+
+    expect(operations).toEqual(["store-write", "file-unlink"]);
+  });
+
+  it("listeners can unsubscribe and never break cache operations", async () => {
+    const listener = jest.fn();
+    const unsubscribe = cache.on("put", listener);
+    cache.on("put", () => {
+      throw new Error("listener failed");
+    });
+
+    await expect(
+      cache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH)
+    ).resolves.toBe(true);
+    unsubscribe();
+    await cache.put({ id: `${MOCK_PREFIX}:B` }, MOCK_FILE_PATH);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("getStats counts hits, misses, puts and evictions", async () => {
+    dictionary[`${MOCK_PREFIX}:corrupt`] = "{not json";
+    cache = new KeyValueCache(adapter);
+
+    await cache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH);
+    await cache.put({ id: `${MOCK_PREFIX}:B` }, MOCK_FILE_PATH);
+    await cache.get({ id: `${MOCK_PREFIX}:A` });
+    await cache.get({ id: `${MOCK_PREFIX}:A` });
+    await cache.get({ id: `${MOCK_PREFIX}:missing` });
+    await cache.delete({ id: `${MOCK_PREFIX}:B` });
+    await cache.get({ id: `${MOCK_PREFIX}:corrupt` });
+
+    const stats = await cache.getStats();
+
+    expect(stats).toMatchObject({
+      hits: 2,
+      misses: 2,
+      puts: 2,
+      evictions: { expired: 0, count: 0, size: 0, manual: 1 },
+      corruptEntries: 1,
+      bytesFreed: MOCK_FILE_SIZE,
+      entriesCount: 1,
+      diskSize: MOCK_FILE_SIZE,
+      averageEntrySize: MOCK_FILE_SIZE,
+    });
+    expect(stats.hitRatio).toBeCloseTo(0.5);
+  });
+
+  it("persistStats restores the stats snapshot on boot", async () => {
+    adapter.persistStats = true;
+    cache = new KeyValueCache(adapter);
+
+    await cache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH);
+    await cache.get({ id: `${MOCK_PREFIX}:A` });
+    const { since } = await cache.getStats();
+    await cache.flush();
+
+    const restarted = new KeyValueCache(adapter);
+    const stats = await restarted.getStats();
+
+    expect(stats).toMatchObject({ since, hits: 1, puts: 1 });
+    // The snapshot is not an entry.
+    expect(stats.entriesCount).toBe(1);
+  });
+
+  it("persistStats writes the stats on an interval, on flush and on close, not on every change", async () => {
+    jest.useFakeTimers();
+    adapter.persistStats = true;
+    adapter.persistStatsMillis = 1000;
+    const statsCache = new KeyValueCache(adapter);
+    const statsKey = `${MOCK_PREFIX}__stats__`;
+    const readHits = () =>
+      (JSON.parse(dictionary[statsKey]) as { hits: number }).hits;
+    await statsCache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH);
+    for (let i = 0; i < 3; i++) {
+      await statsCache.get({ id: `${MOCK_PREFIX}:A` });
+    }
+    expect(dictionary[statsKey]).toBeUndefined();
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(readHits()).toBe(3);
+
+    await statsCache.get({ id: `${MOCK_PREFIX}:A` });
+    await statsCache.flush();
+    expect(readHits()).toBe(4);
+
+    await statsCache.get({ id: `${MOCK_PREFIX}:A` });
+    await statsCache.close();
+    expect(readHits()).toBe(5);
+  });
+
+  it("collectGarbage removes unreferenced files and entries with missing files", async () => {
+    adapter.directory = "/mock/path";
+    adapter.listFiles = jest
+      .fn()
+      .mockResolvedValue([
+        MOCK_FILE_PATH,
+        "/mock/path/orphan.jpg",
+        "/mock/path/store.json",
+      ]);
+    adapter.fileUnlink.mockResolvedValue(true);
+
+    await cache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH);
+    await cache.put(
+      { id: `${MOCK_PREFIX}:gone` },
+      MOCK_FILE_DOES_NOT_EXIST_PATH
+    );
+
+    const report = await cache.collectGarbage({
+      keep: path => path.endsWith("store.json"),
+    });
+
+    expect(report).toEqual({
+      removedFiles: ["/mock/path/orphan.jpg"],
+      removedEntries: [`${MOCK_PREFIX}:gone`],
+      bytesFreed: MOCK_FILE_SIZE,
+    });
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(adapter.fileUnlink).toHaveBeenCalledTimes(1);
+    expect(await cache.get({ id: `${MOCK_PREFIX}:A` })).toBe(MOCK_FILE_PATH);
+    expect(await cache.getCurrentEntriesCount()).toBe(1);
+  });
+
+  it("collectGarbage keeps files when an entry of a newer version exists", async () => {
+    adapter.directory = "/mock/path";
+    adapter.listFiles = jest.fn().mockResolvedValue(["/mock/path/orphan.jpg"]);
+    dictionary[`${MOCK_PREFIX}:future`] = JSON.stringify({
+      version: 99,
+      entry: {},
+    });
+
+    const report = await cache.collectGarbage();
+
+    expect(report.removedFiles).toEqual([]);
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(adapter.fileUnlink).not.toHaveBeenCalled();
+  });
+
+  it("verify always evicts entries whose file no longer matches", async () => {
+    let content = "complete";
+    adapter.verify = "always";
+    adapter.fileFingerprint = jest
+      .fn()
+      .mockImplementation(async () => Promise.resolve(content));
+    adapter.fileUnlink.mockResolvedValue(true);
+    const evict = jest.fn();
+    cache.on("evict", evict);
+
+    await cache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH);
+    expect(await cache.get({ id: `${MOCK_PREFIX}:A` })).toBe(MOCK_FILE_PATH);
+
+    content = "truncated";
+
+    expect(await cache.get({ id: `${MOCK_PREFIX}:A` })).toBeNull();
+    expect(evict).toHaveBeenCalledWith(
+      expect.objectContaining({ reason: "integrity" })
+    );
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(adapter.fileUnlink).toHaveBeenCalledWith(MOCK_FILE_PATH);
+    expect(await cache.getCurrentEntriesCount()).toBe(0);
+  });
+
+  it("verify on-first-access checks the file of an entry once", async () => {
+    adapter.verify = "on-first-access";
+    adapter.fileFingerprint = jest.fn().mockResolvedValue("hash");
+
+    await cache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH, {
+      fingerprint: "hash",
+    });
+    await cache.get({ id: `${MOCK_PREFIX}:A` });
+    await cache.get({ id: `${MOCK_PREFIX}:A` });
+
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(adapter.fileFingerprint).toHaveBeenCalledTimes(1);
+    const stored = JSON.parse(dictionary[`${MOCK_PREFIX}:A`]) as StoredEntry & {
+      entry: { isVerified: boolean };
+    };
+    expect(stored.entry.isVerified).toBe(true);
+  });
+
+  it("verify compares against the fingerprint passed to put", async () => {
+    adapter.verify = "always";
+    adapter.fileFingerprint = jest.fn().mockResolvedValue("partial");
+
+    await cache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH, {
+      fingerprint: "expected",
+    });
+
+    expect(await cache.get({ id: `${MOCK_PREFIX}:A` })).toBeNull();
+  });
+
+  it("verify never does not fingerprint files", async () => {
+    adapter.fileFingerprint = jest.fn().mockResolvedValue("hash");
+
+    await cache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH);
+    await cache.get({ id: `${MOCK_PREFIX}:A` });
+
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(adapter.fileFingerprint).not.toHaveBeenCalled();
+  });
+
+  it("pinned entries are never evicted and reported separately", async () => {
+    adapter.maxEntries = 1;
+    const expired = Date.now() - EVICTION_MILLIS - 1000;
+    dictionary[`${MOCK_PREFIX}:A`] = JSON.stringify({
+      version: 2,
+      entry: {
+        filePath: MOCK_FILE_PATH,
+        lastAccessed: expired,
+        size: MOCK_FILE_SIZE,
+        createdAt: expired,
+        pinned: true,
+      },
+    });
+    cache = new KeyValueCache(adapter);
+
+    await cache.put({ id: `${MOCK_PREFIX}:B` }, MOCK_FILE_PATH);
+
+    expect(dictionary[`${MOCK_PREFIX}:A`]).toBeDefined();
+    expect(dictionary[`${MOCK_PREFIX}:B`]).toBeUndefined();
+    expect(await cache.get({ id: `${MOCK_PREFIX}:A` })).toBe(MOCK_FILE_PATH);
+    expect(await cache.getCurrentPinnedSize()).toBe(MOCK_FILE_SIZE);
+    expect((await cache.getStats()).pinnedSize).toBe(MOCK_FILE_SIZE);
+
+    expect(await cache.delete({ id: `${MOCK_PREFIX}:A` })).toBe(true);
+    expect(await cache.getCurrentPinnedSize()).toBe(0);
+  });
+
+  it("eviction evicts lower priorities first", async () => {
+    adapter.maxEntries = 2;
+
+    await cache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH, {
+      priority: 1,
+    });
+    await cache.put({ id: `${MOCK_PREFIX}:B` }, MOCK_FILE_PATH);
+    await cache.put({ id: `${MOCK_PREFIX}:C` }, MOCK_FILE_PATH, {
+      priority: 1,
+    });
+
+    expect(dictionary[`${MOCK_PREFIX}:A`]).toBeDefined();
+    expect(dictionary[`${MOCK_PREFIX}:B`]).toBeUndefined();
+    expect(dictionary[`${MOCK_PREFIX}:C`]).toBeDefined();
+  });
+
+  it("pin and unpin change whether an entry can be evicted", async () => {
+    adapter.useIndex = true;
+    cache = new KeyValueCache(adapter);
+    await cache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH);
+    await cache.put({ id: `${MOCK_PREFIX}:B` }, MOCK_FILE_PATH);
+
+    expect(await cache.pin({ id: `${MOCK_PREFIX}:A` })).toBe(true);
+    expect(await cache.pin({ id: `${MOCK_PREFIX}:B` })).toBe(true);
+    expect(await cache.pin({ id: `${MOCK_PREFIX}:missing` })).toBe(false);
+    await cache.configure({ maxEntries: 1 });
+
+    expect(await cache.getCurrentEntriesCount()).toBe(2);
+    const index = JSON.parse(
+      dictionary[`${MOCK_PREFIX}__index__`]
+    ) as StoredIndex;
+    expect(index.entries.map(([key, , , , pinned]) => [key, pinned])).toEqual([
+      [`${MOCK_PREFIX}:A`, true],
+      [`${MOCK_PREFIX}:B`, true],
+    ]);
+
+    expect(await cache.unpin({ id: `${MOCK_PREFIX}:A` })).toBe(true);
+
+    expect(dictionary[`${MOCK_PREFIX}:A`]).toBeUndefined();
+    expect(await cache.getCurrentEntriesCount()).toBe(1);
+    expect(await cache.getCurrentPinnedSize()).toBe(MOCK_FILE_SIZE);
+  });
+
+  it("ttlMillis overrides evictionMillis for an entry", async () => {
+    const now = Date.now();
+    jest.spyOn(Date, "now").mockReturnValue(now);
+    await cache.put({ id: `${MOCK_PREFIX}:short` }, MOCK_FILE_PATH, {
+      ttlMillis: 1000,
+    });
+    await cache.put({ id: `${MOCK_PREFIX}:long` }, MOCK_FILE_PATH, {
+      ttlMillis: EVICTION_MILLIS * 2,
+    });
+    await cache.put({ id: `${MOCK_PREFIX}:default` }, MOCK_FILE_PATH);
+
+    jest.spyOn(Date, "now").mockReturnValue(now + 2000);
+    expect(await cache.get({ id: `${MOCK_PREFIX}:short` })).toBeNull();
+
+    jest.spyOn(Date, "now").mockReturnValue(now + EVICTION_MILLIS + 2000);
+    expect(await cache.cleanExpiredEntries()).toBe(true);
+
+    expect(dictionary[`${MOCK_PREFIX}:long`]).toBeDefined();
+    expect(dictionary[`${MOCK_PREFIX}:default`]).toBeUndefined();
+  });
+
+  it("expiresAt expires an entry however recently it was accessed", async () => {
+    const now = Date.now();
+    jest.spyOn(Date, "now").mockReturnValue(now);
+    await cache.put({ id: `${MOCK_PREFIX}:signed` }, MOCK_FILE_PATH, {
+      expiresAt: now + 1000,
+    });
+    await cache.put({ id: `${MOCK_PREFIX}:fresh` }, MOCK_FILE_PATH);
+
+    expect(await cache.get({ id: `${MOCK_PREFIX}:signed` })).toBe(
+      MOCK_FILE_PATH
+    );
+
+    jest.spyOn(Date, "now").mockReturnValue(now + 1000);
+    // The least recently used entry is fresh, the pass must not stop there.
+    await cache.get({ id: `${MOCK_PREFIX}:fresh` });
+    await cache.get({ id: `${MOCK_PREFIX}:fresh` });
+    expect(await cache.cleanExpiredEntries()).toBe(true);
+
+    expect(dictionary[`${MOCK_PREFIX}:signed`]).toBeUndefined();
+    expect(dictionary[`${MOCK_PREFIX}:fresh`]).toBeDefined();
+  });
+
+  it("put, putMany and getOrCreate reject expiry options that can't be stored", async () => {
+    const key = `${MOCK_PREFIX}:A`;
+    const producer = jest.fn().mockResolvedValue(MOCK_FILE_PATH);
+
+    await expect(
+      cache.put({ id: key }, MOCK_FILE_PATH, { ttlMillis: 1500.5 })
+    ).rejects.toThrow();
+    await expect(
+      cache.put({ id: key }, MOCK_FILE_PATH, { ttlMillis: -1 })
+    ).rejects.toThrow();
+    await expect(
+      cache.putMany([
+        { params: { id: key }, filePath: MOCK_FILE_PATH },
+        {
+          params: { id: `${MOCK_PREFIX}:B` },
+          filePath: MOCK_FILE_PATH,
+          options: { expiresAt: Date.now() + 0.5 },
+        },
+      ])
+    ).rejects.toThrow();
+    await expect(
+      cache.getOrCreate({ id: key }, producer, { expiresAt: 0 })
+    ).rejects.toThrow();
+
+    expect(producer).not.toHaveBeenCalled();
+    expect(dictionary[key]).toBeUndefined();
+    expect(await cache.getCurrentEntriesCount()).toBe(0);
+  });
+
+  it("getEntry returns the metadata put with the entry", async () => {
+    const metadataSchema = z.object({ mimeType: z.string(), etag: z.string() });
+    const typedCache = new KeyValueCache({ ...adapter, metadataSchema });
+
+    await typedCache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH, {
+      metadata: { mimeType: "image/jpeg", etag: "abc" },
+    });
+    const entry = await typedCache.getEntry({ id: `${MOCK_PREFIX}:A` });
+
+    expect(entry).toEqual({
+      filePath: MOCK_FILE_PATH,
+      metadata: { mimeType: "image/jpeg", etag: "abc" },
+      lastAccessed: expect.any(Number) as number,
+      size: MOCK_FILE_SIZE,
+      isStale: false,
+    });
+    expect(await typedCache.getEntry({ id: `${MOCK_PREFIX}:B` })).toBeNull();
+  });
+
+  it("put rejects metadata that doesn't match the schema", async () => {
+    const metadataSchema = z.object({ width: z.number() });
+    const typedCache = new KeyValueCache({ ...adapter, metadataSchema });
+
+    await expect(
+      typedCache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH, {
+        metadata: { width: "wide" } as unknown as { width: number },
+      })
+    ).rejects.toThrow();
+    expect(dictionary[`${MOCK_PREFIX}:A`]).toBeUndefined();
+  });
+
+  it("getEntry drops stored metadata that no longer matches the schema", async () => {
+    await cache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH, {
+      metadata: { width: "wide" },
+    });
+
+    const typedCache = new KeyValueCache({
+      ...adapter,
+      metadataSchema: z.object({ width: z.number() }),
+    });
+    const entry = await typedCache.getEntry({ id: `${MOCK_PREFIX}:A` });
+
+    expect(entry?.filePath).toBe(MOCK_FILE_PATH);
+    expect(entry?.metadata).toBeUndefined();
+  });
+
+  it("staleWhileRevalidateMillis serves expired entries as stale and refreshes them", async () => {
+    const now = Date.now();
+    jest.spyOn(Date, "now").mockReturnValue(now);
+    const revalidator = jest
+      .fn()
+      .mockResolvedValue({ status: "not-modified", validators: { etag: "2" } });
+    const swrCache = new KeyValueCache({
+      ...adapter,
+      staleWhileRevalidateMillis: EVICTION_MILLIS,
+      revalidator,
+    });
+    await swrCache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH, {
+      validators: { etag: "1" },
+    });
+
+    jest.spyOn(Date, "now").mockReturnValue(now + EVICTION_MILLIS + 1000);
+    const entry = await swrCache.getEntry({ id: `${MOCK_PREFIX}:A` });
+    await swrCache.revalidate({ id: `${MOCK_PREFIX}:A` });
+
+    expect(entry).toMatchObject({ filePath: MOCK_FILE_PATH, isStale: true });
+    expect(revalidator).toHaveBeenCalledWith(
+      expect.objectContaining({
+        key: `${MOCK_PREFIX}:A`,
+        filePath: MOCK_FILE_PATH,
+        validators: { etag: "1" },
+      })
+    );
+    // Shared with the background revalidation started by getEntry.
+    expect(revalidator).toHaveBeenCalledTimes(1);
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(adapter.fileUnlink).not.toHaveBeenCalled();
+
+    const stored = JSON.parse(dictionary[`${MOCK_PREFIX}:A`]) as StoredEntry & {
+      entry: { validators: { etag: string } };
+    };
+    expect(stored.entry.lastAccessed).toBe(now + EVICTION_MILLIS + 1000);
+    expect(stored.entry.validators).toEqual({ etag: "2" });
+    expect((await swrCache.getEntry({ id: `${MOCK_PREFIX}:A` }))?.isStale).toBe(
+      false
+    );
+  });
+
+  it("revalidate replaces a stale entry with a modified file", async () => {
+    const newFilePath = "/mock/path/new.jpg";
+    const swrCache = new KeyValueCache({
+      ...adapter,
+      staleWhileRevalidateMillis: EVICTION_MILLIS,
+      revalidator: async () =>
+        Promise.resolve({
+          status: "modified" as const,
+          filePath: newFilePath,
+          validators: { etag: "2" },
+        }),
+    });
+    await swrCache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH, {
+      metadata: { mimeType: "image/jpeg" },
+    });
+
+    expect(await swrCache.revalidate({ id: `${MOCK_PREFIX}:A` })).toBe(true);
+
+    const entry = await swrCache.getEntry({ id: `${MOCK_PREFIX}:A` });
+    expect(entry).toMatchObject({
+      filePath: newFilePath,
+      metadata: { mimeType: "image/jpeg" },
+    });
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(adapter.fileUnlink).toHaveBeenCalledWith(MOCK_FILE_PATH);
+    expect(await swrCache.getCurrentEntriesCount()).toBe(1);
+  });
+
+  it("revalidate keeps a file put while revalidating, and the ttlMillis of the entry", async () => {
+    const newFilePath = "/mock/path/new.jpg";
+    const putFilePath = "/mock/path/put.jpg";
+    let resume = () => {};
+    const isResumed = new Promise<void>(resolve => {
+      resume = resolve;
+    });
+    const swrCache = new KeyValueCache({
+      ...adapter,
+      revalidator: async () => {
+        await isResumed;
+        return {
+          status: "modified" as const,
+          filePath: newFilePath,
+        };
+      },
+    });
+    const key = `${MOCK_PREFIX}:A`;
+    await swrCache.put({ id: key }, MOCK_FILE_PATH, { ttlMillis: 1000 });
+
+    const revalidation = swrCache.revalidate({ id: key });
+    await swrCache.put({ id: key }, putFilePath);
+    resume();
+
+    expect(await revalidation).toBe(false);
+    expect(await swrCache.get({ id: key })).toBe(putFilePath);
+
+    await swrCache.put({ id: key }, MOCK_FILE_PATH, { ttlMillis: 1000 });
+    expect(await swrCache.revalidate({ id: key })).toBe(true);
+    expect((JSON.parse(dictionary[key]) as StoredEntry).entry).toMatchObject({
+      filePath: newFilePath,
+      ttlMillis: 1000,
+    });
+  });
+
+  it("staleWhileRevalidateMillis evicts entries past the stale window", async () => {
+    const now = Date.now();
+    jest.spyOn(Date, "now").mockReturnValue(now);
+    const swrCache = new KeyValueCache({
+      ...adapter,
+      staleWhileRevalidateMillis: 1000,
+    });
+    await swrCache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH);
+
+    jest.spyOn(Date, "now").mockReturnValue(now + EVICTION_MILLIS + 2000);
+
+    expect(await swrCache.get({ id: `${MOCK_PREFIX}:A` })).toBeNull();
+    expect(await swrCache.getCurrentEntriesCount()).toBe(0);
+  });
+
+  it("getMany, putMany and deleteMany use the batch store methods when present", async () => {
+    adapter.getValuesForKeys = jest
+      .fn()
+      .mockImplementation(async (keys: string[]) =>
+        Promise.resolve(keys.map(key => dictionary[key] ?? null))
+      );
+    adapter.setValuesForKeys = jest
+      .fn()
+      .mockImplementation(async (entries: [string, string][]) =>
+        Promise.resolve(
+          entries.map(([key, value]) => {
+            dictionary[key] = value;
+            return true;
+          })
+        )
+      );
+    adapter.deleteKeyValues = jest
+      .fn()
+      .mockImplementation(async (keys: string[]) =>
+        Promise.resolve(
+          keys.map(key => {
+            delete dictionary[key];
+            return true;
+          })
+        )
+      );
+
+    expect(
+      await cache.putMany([
+        { params: { id: `${MOCK_PREFIX}:A` }, filePath: MOCK_FILE_PATH },
+        { params: { id: `${MOCK_PREFIX}:B` }, filePath: MOCK_FILE_PATH },
+        { params: { id: MOCK_NOT_FOUND_KEY }, filePath: MOCK_FILE_PATH },
+      ])
+    ).toEqual([true, true, false]);
+    expect(
+      await cache.getMany([
+        { id: `${MOCK_PREFIX}:A` },
+        { id: MOCK_NOT_FOUND_KEY },
+        { id: `${MOCK_PREFIX}:C` },
+        { id: `${MOCK_PREFIX}:B` },
+      ])
+    ).toEqual([MOCK_FILE_PATH, null, null, MOCK_FILE_PATH]);
+    expect(
+      await cache.deleteMany([
+        { id: `${MOCK_PREFIX}:A` },
+        { id: `${MOCK_PREFIX}:C` },
+      ])
+    ).toEqual([true, false]);
+
+    expect(await cache.getCurrentEntriesCount()).toBe(1);
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(adapter.getValueForKey).not.toHaveBeenCalled();
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(adapter.setValueForKey).not.toHaveBeenCalled();
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(adapter.deleteKeyValue).not.toHaveBeenCalled();
+  });
+
+  it("batch operations fall back to the single key store methods", async () => {
+    const evict = jest.fn();
+    cache.on("evict", evict);
+
+    expect(
+      await cache.putMany([
+        { params: { id: `${MOCK_PREFIX}:A` }, filePath: MOCK_FILE_PATH },
+        { params: { id: `${MOCK_PREFIX}:B` }, filePath: MOCK_FILE_PATH },
+      ])
+    ).toEqual([true, true]);
+    expect(
+      await cache.getMany([
+        { id: `${MOCK_PREFIX}:A` },
+        { id: `${MOCK_PREFIX}:C` },
+      ])
+    ).toEqual([MOCK_FILE_PATH, null]);
+    expect(
+      await cache.deleteMany([
+        { id: `${MOCK_PREFIX}:A` },
+        { id: `${MOCK_PREFIX}:B` },
+      ])
+    ).toEqual([true, true]);
+
+    expect(dictionary).toEqual({});
+    expect(await cache.getCurrentEntriesCount()).toBe(0);
+    expect(await cache.getCurrentDiskSize()).toBe(0);
+    expect(evict).toHaveBeenCalledTimes(2);
+    expect(evict).toHaveBeenCalledWith(
+      expect.objectContaining({ reason: "manual" })
+    );
+  });
+
+  it("putMany evicts once all items are put, and persists the index once", async () => {
+    adapter.useIndex = true;
+    adapter.maxEntries = 2;
+    const indexedCache = new KeyValueCache(adapter);
+    await indexedCache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH);
+
+    const events: string[] = [];
+    indexedCache.on("put", ({ key }) => events.push(`put ${key}`));
+    indexedCache.on("evict", ({ key }) => events.push(`evict ${key}`));
+    adapter.setValueForKey.mockClear();
+
+    await indexedCache.putMany(
+      ["B", "C", "D"].map(id => ({
+        params: { id: `${MOCK_PREFIX}:${id}` },
+        filePath: MOCK_FILE_PATH,
+      }))
+    );
+
+    expect(events).toEqual([
+      `put ${MOCK_PREFIX}:B`,
+      `put ${MOCK_PREFIX}:C`,
+      `put ${MOCK_PREFIX}:D`,
+      `evict ${MOCK_PREFIX}:A`,
+      `evict ${MOCK_PREFIX}:B`,
+    ]);
+    expect(await indexedCache.getCurrentEntriesCount()).toBe(2);
+    const indexWrites = adapter.setValueForKey.mock.calls.filter(
+      ([key]) => key === `${MOCK_PREFIX}__index__`
+    );
+    // Once for the batch, then once per eviction.
+    expect(indexWrites).toHaveLength(3);
+  });
+
+  it("putMany only puts the last item of a key", async () => {
+    expect(
+      await cache.putMany([
+        {
+          params: { id: `${MOCK_PREFIX}:A` },
+          filePath: "/mock/path/first.jpg",
+        },
+        { params: { id: `${MOCK_PREFIX}:A` }, filePath: MOCK_FILE_PATH },
+      ])
+    ).toEqual([false, true]);
+
+    expect(await cache.get({ id: `${MOCK_PREFIX}:A` })).toBe(MOCK_FILE_PATH);
+    expect(await cache.getCurrentEntriesCount()).toBe(1);
+  });
+
+  it("throttled access writes only write lastAccessed once it is old enough", async () => {
+    const now = Date.now();
+    adapter.accessWrite = "throttled";
+    adapter.accessWriteMillis = 1000;
+    const throttledCache = new KeyValueCache(adapter);
+    const key = `${MOCK_PREFIX}:A`;
+    jest.spyOn(Date, "now").mockReturnValue(now);
+    await throttledCache.put({ id: key }, MOCK_FILE_PATH);
+    adapter.setValueForKey.mockClear();
+
+    jest.spyOn(Date, "now").mockReturnValue(now + 100);
+    expect(await throttledCache.get({ id: key })).toBe(MOCK_FILE_PATH);
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(adapter.setValueForKey).not.toHaveBeenCalled();
+
+    jest.spyOn(Date, "now").mockReturnValue(now + 1500);
+    expect(await throttledCache.get({ id: key })).toBe(MOCK_FILE_PATH);
+    expect(
+      (JSON.parse(dictionary[key]) as StoredEntry).entry.lastAccessed
+    ).toBe(now + 1500);
+  });
+
+  it("throttled access writes keep writing under steady traffic", async () => {
+    let time = Date.now();
+    adapter.now = () => time;
+    adapter.accessWrite = "throttled";
+    adapter.accessWriteMillis = 100;
+    const throttledCache = new KeyValueCache(adapter);
+    const key = `${MOCK_PREFIX}:A`;
+    await throttledCache.put({ id: key }, MOCK_FILE_PATH);
+    adapter.setValueForKey.mockClear();
+
+    // A hit every 50 ms, always within the throttle of the previous hit.
+    for (let i = 0; i < 50; i++) {
+      time += 50;
+      await throttledCache.get({ id: key });
+    }
+
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(adapter.setValueForKey).toHaveBeenCalledTimes(25);
+    expect(
+      (JSON.parse(dictionary[key]) as StoredEntry).entry.lastAccessed
+    ).toBe(time);
+  });
+
+  it("buffered access writes keep lastAccessed in memory until flushed", async () => {
+    const now = Date.now();
+    adapter.accessWrite = "buffered";
+    const bufferedCache = new KeyValueCache(adapter);
+    const key = `${MOCK_PREFIX}:A`;
+    jest.spyOn(Date, "now").mockReturnValue(now);
+    await bufferedCache.put({ id: key }, MOCK_FILE_PATH);
+    adapter.setValueForKey.mockClear();
+
+    jest.spyOn(Date, "now").mockReturnValue(now + 100);
+    expect(await bufferedCache.get({ id: key })).toBe(MOCK_FILE_PATH);
+    expect(await bufferedCache.get({ id: key })).toBe(MOCK_FILE_PATH);
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(adapter.setValueForKey).not.toHaveBeenCalled();
+    expect(
+      (JSON.parse(dictionary[key]) as StoredEntry).entry.lastAccessed
+    ).toBe(now);
+
+    await bufferedCache.flush();
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(adapter.setValueForKey).toHaveBeenCalledTimes(1);
+    expect(
+      (JSON.parse(dictionary[key]) as StoredEntry).entry.lastAccessed
+    ).toBe(now + 100);
+
+    await bufferedCache.flush();
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(adapter.setValueForKey).toHaveBeenCalledTimes(1);
+  });
+
+  it("buffered accesses count for eviction ordering", async () => {
+    const now = Date.now();
+    adapter.accessWrite = "buffered";
+    adapter.maxEntries = 2;
+    const bufferedCache = new KeyValueCache(adapter);
+    jest.spyOn(Date, "now").mockReturnValue(now);
+    await bufferedCache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH);
+    jest.spyOn(Date, "now").mockReturnValue(now + 1);
+    await bufferedCache.put({ id: `${MOCK_PREFIX}:B` }, MOCK_FILE_PATH);
+    jest.spyOn(Date, "now").mockReturnValue(now + 2);
+    await bufferedCache.get({ id: `${MOCK_PREFIX}:A` });
+
+    jest.spyOn(Date, "now").mockReturnValue(now + 3);
+    await bufferedCache.put({ id: `${MOCK_PREFIX}:C` }, MOCK_FILE_PATH);
+
+    expect(Object.keys(dictionary).sort()).toEqual([
+      `${MOCK_PREFIX}:A`,
+      `${MOCK_PREFIX}:C`,
+    ]);
+  });
+
+  it("buffered accesses are flushed on an interval and on close", async () => {
+    jest.useFakeTimers();
+    const now = 1_000_000;
+    let time = now;
+    adapter.now = () => time;
+    adapter.accessWrite = "buffered";
+    adapter.accessWriteMillis = 10;
+    const bufferedCache = new KeyValueCache(adapter);
+    const readLastAccessed = (id: string) =>
+      (JSON.parse(dictionary[`${MOCK_PREFIX}:${id}`]) as StoredEntry).entry
+        .lastAccessed;
+    await bufferedCache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH);
+    await bufferedCache.put({ id: `${MOCK_PREFIX}:B` }, MOCK_FILE_PATH);
+
+    time = now + 100;
+    await bufferedCache.get({ id: `${MOCK_PREFIX}:A` });
+    expect(readLastAccessed("A")).toBe(now);
+    await jest.advanceTimersByTimeAsync(10);
+    expect(readLastAccessed("A")).toBe(now + 100);
+
+    time = now + 200;
+    await bufferedCache.get({ id: `${MOCK_PREFIX}:B` });
+    await bufferedCache.close();
+    expect(readLastAccessed("B")).toBe(now + 200);
+  });
+
+  it("create resolves to a booted cache", async () => {
+    dictionary[`${MOCK_PREFIX}:A`] = JSON.stringify({
+      version: 2,
+      entry: {
+        filePath: MOCK_FILE_PATH,
+        lastAccessed: Date.now(),
+        size: 1234,
+        createdAt: Date.now(),
+      },
+    });
+
+    const createdCache = await KeyValueCache.create(adapter);
+
+    expect(createdCache.state).toBe("ready");
+    expect(await createdCache.getCurrentEntriesCount()).toBe(1);
+  });
+
+  it("create rejects and closes the cache when boot fails", async () => {
+    adapter.getAllKeys.mockRejectedValue(new Error("store unavailable"));
+
+    await expect(KeyValueCache.create(adapter)).rejects.toThrow(
+      "store unavailable"
+    );
+  });
+
+  it("boot is retried by the next call after it failed", async () => {
+    adapter.getAllKeys.mockRejectedValueOnce(new Error("store unavailable"));
+    const failingCache = new KeyValueCache(adapter);
+
+    await expect(failingCache.ready()).rejects.toThrow("store unavailable");
+    expect(failingCache.state).toBe("failed");
+
+    expect(
+      await failingCache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH)
+    ).toBe(true);
+    expect(failingCache.state).toBe("ready");
+    expect(await failingCache.getCurrentEntriesCount()).toBe(1);
+  });
+
+  it("close flushes pending writes and rejects further calls", async () => {
+    adapter.accessWrite = "buffered";
+    adapter.persistStats = true;
+    const bufferedCache = await KeyValueCache.create(adapter);
+    const key = `${MOCK_PREFIX}:A`;
+    const now = Date.now();
+    jest.spyOn(Date, "now").mockReturnValue(now);
+    await bufferedCache.put({ id: key }, MOCK_FILE_PATH);
+    jest.spyOn(Date, "now").mockReturnValue(now + 100);
+    await bufferedCache.get({ id: key });
+
+    await Promise.all([bufferedCache.close(), bufferedCache.dispose()]);
+
+    expect(bufferedCache.state).toBe("closed");
+    expect(
+      (JSON.parse(dictionary[key]) as StoredEntry).entry.lastAccessed
+    ).toBe(now + 100);
+    expect(
+      (JSON.parse(dictionary[`${MOCK_PREFIX}__stats__`]) as { hits: number })
+        .hits
+    ).toBe(1);
+    await expect(bufferedCache.get({ id: key })).rejects.toThrow(
+      "The cache is closed"
+    );
+    await expect(bufferedCache.ready()).rejects.toThrow("The cache is closed");
+    await expect(
+      bufferedCache.put({ id: key }, MOCK_FILE_PATH)
+    ).rejects.toThrow(CacheClosedError);
+  });
+
+  it("close waits for the calls in flight, then flushes their accesses", async () => {
+    let time = Date.now();
+    adapter.now = () => time;
+    adapter.accessWrite = "buffered";
+    const closingCache = new KeyValueCache(adapter);
+    const keyA = `${MOCK_PREFIX}:A`;
+    const keyB = `${MOCK_PREFIX}:B`;
+    await closingCache.put({ id: keyA }, MOCK_FILE_PATH);
+
+    let resume = () => {};
+    const isResumed = new Promise<void>(resolve => {
+      resume = resolve;
+    });
+    let hasStarted = () => {};
+    const isStarted = new Promise<void>(resolve => {
+      hasStarted = resolve;
+    });
+    const getValueForKey = adapter.getValueForKey.getMockImplementation()!;
+    adapter.getValueForKey.mockImplementation(async key => {
+      if (key === keyA) {
+        hasStarted();
+        await isResumed;
+      }
+      return getValueForKey(key);
+    });
+    const setValueForKey = adapter.setValueForKey.getMockImplementation()!;
+    adapter.setValueForKey.mockImplementation(async (key, value) => {
+      if (key === keyB) {
+        await isResumed;
+      }
+      return setValueForKey(key, value);
+    });
+
+    time += 100;
+    const get = closingCache.get({ id: keyA });
+    const put = closingCache.put({ id: keyB }, MOCK_FILE_PATH);
+    await isStarted;
+    const settled: string[] = [];
+    void put.then(() => settled.push("put"));
+    const close = closingCache.close().then(() => settled.push("close"));
+    resume();
+    await close;
+
+    expect(await get).toBe(MOCK_FILE_PATH);
+    expect(await put).toBe(true);
+    expect(settled).toEqual(["put", "close"]);
+    expect(dictionary[keyB]).toBeDefined();
+    expect(
+      (JSON.parse(dictionary[keyA]) as StoredEntry).entry.lastAccessed
+    ).toBe(time);
+  });
+
+  it("close during boot stops it from writing to the store", async () => {
+    const lastAccessed = Date.now() - 1;
+    for (const id of ["0", "1", "2"]) {
+      dictionary[`${MOCK_PREFIX}:${id}`] =
+        `{ "filePath": "${MOCK_FILE_PATH}", "lastAccessed": ${lastAccessed} }`;
+    }
+    const stored = { ...dictionary };
+    adapter.useIndex = true;
+    let resume = () => {};
+    const isResumed = new Promise<void>(resolve => {
+      resume = resolve;
+    });
+    const getAllKeys = adapter.getAllKeys.getMockImplementation()!;
+    adapter.getAllKeys.mockImplementation(async () => {
+      await isResumed;
+      return getAllKeys();
+    });
+    const bootingCache = new KeyValueCache(adapter);
+
+    const close = bootingCache.close();
+    resume();
+    await close;
+    // Lets the boot run to its end, its steps only wait for promises.
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(bootingCache.state).toBe("closed");
+    expect(dictionary).toEqual(stored);
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(adapter.setValueForKey).not.toHaveBeenCalled();
+    await expect(bootingCache.ready()).rejects.toThrow(CacheClosedError);
+  });
+
+  it("lruPolicy evicts the least recently used entry", async () => {
+    const clock = Date.now();
+    adapter.maxEntries = 2;
+    adapter.evictionPolicy = lruPolicy;
+    const policyCache = new KeyValueCache(adapter);
+    await atTime(clock, () =>
+      policyCache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH)
+    );
+    await atTime(clock + 1, () =>
+      policyCache.put({ id: `${MOCK_PREFIX}:B` }, MOCK_FILE_PATH)
+    );
+    await atTime(clock + 2, () => policyCache.get({ id: `${MOCK_PREFIX}:A` }));
+    await atTime(clock + 3, () =>
+      policyCache.put({ id: `${MOCK_PREFIX}:C` }, MOCK_FILE_PATH)
+    );
+
+    expect(Object.keys(dictionary).sort()).toEqual([
+      `${MOCK_PREFIX}:A`,
+      `${MOCK_PREFIX}:C`,
+    ]);
+  });
+
+  it("fifoPolicy evicts the first put entry, however recently used", async () => {
+    const clock = Date.now();
+    adapter.maxEntries = 2;
+    adapter.evictionPolicy = fifoPolicy;
+    const policyCache = new KeyValueCache(adapter);
+    await atTime(clock, () =>
+      policyCache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH)
+    );
+    await atTime(clock + 1, () =>
+      policyCache.put({ id: `${MOCK_PREFIX}:B` }, MOCK_FILE_PATH)
+    );
+    await atTime(clock + 2, () => policyCache.get({ id: `${MOCK_PREFIX}:A` }));
+    await atTime(clock + 3, () =>
+      policyCache.put({ id: `${MOCK_PREFIX}:C` }, MOCK_FILE_PATH)
+    );
+
+    expect(Object.keys(dictionary).sort()).toEqual([
+      `${MOCK_PREFIX}:B`,
+      `${MOCK_PREFIX}:C`,
+    ]);
+  });
+
+  it("lfuPolicy evicts the least frequently used entry, with or without an index", async () => {
+    const clock = Date.now();
+    adapter.maxEntries = 2;
+    for (const useIndex of [false, true]) {
+      dictionary = {};
+      adapter.evictionPolicy = lfuPolicy;
+      adapter.useIndex = useIndex;
+      const policyCache = new KeyValueCache(adapter);
+      await atTime(clock, () =>
+        policyCache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH)
+      );
+      await atTime(clock + 1, () =>
+        policyCache.get({ id: `${MOCK_PREFIX}:A` })
+      );
+      await atTime(clock + 2, () =>
+        policyCache.get({ id: `${MOCK_PREFIX}:A` })
+      );
+      // More recently used than A, but used less.
+      await atTime(clock + 3, () =>
+        policyCache.put({ id: `${MOCK_PREFIX}:B` }, MOCK_FILE_PATH)
+      );
+      await atTime(clock + 4, () =>
+        policyCache.put({ id: `${MOCK_PREFIX}:C` }, MOCK_FILE_PATH)
+      );
+
+      expect(
+        Object.keys(dictionary)
+          .filter(key => !key.includes("__"))
+          .sort()
+      ).toEqual([`${MOCK_PREFIX}:A`, `${MOCK_PREFIX}:C`]);
+    }
+  });
+
+  it("lfuPolicy and gdsfPolicy don't evict the entry being put when every entry has hits", async () => {
+    let time = Date.now();
+    adapter.now = () => time++;
+    adapter.maxEntries = 2;
+    const newFilePath = "/mock/path/new.jpg";
+    for (const evictionPolicy of [lfuPolicy, gdsfPolicy]) {
+      for (const useIndex of [false, true]) {
+        dictionary = {};
+        adapter.evictionPolicy = evictionPolicy;
+        adapter.useIndex = useIndex;
+        const policyCache = new KeyValueCache(adapter);
+        await policyCache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH);
+        await policyCache.put({ id: `${MOCK_PREFIX}:B` }, MOCK_FILE_PATH);
+        await policyCache.get({ id: `${MOCK_PREFIX}:A` });
+        await policyCache.get({ id: `${MOCK_PREFIX}:B` });
+        adapter.fileUnlink.mockClear();
+
+        expect(
+          await policyCache.put({ id: `${MOCK_PREFIX}:C` }, newFilePath)
+        ).toBe(true);
+
+        expect(await policyCache.get({ id: `${MOCK_PREFIX}:C` })).toBe(
+          newFilePath
+        );
+        expect(await policyCache.getCurrentEntriesCount()).toBe(2);
+        // eslint-disable-next-line @typescript-eslint/unbound-method
+        expect(adapter.fileUnlink).not.toHaveBeenCalledWith(newFilePath);
+      }
+    }
+  });
+
+  it("gdsfPolicy evicts the entry accessed the least per byte", async () => {
+    const clock = Date.now();
+    adapter.maxEntries = 2;
+    const bigFilePath = "/mock/path/big.jpg";
+    adapter.fileSize.mockImplementation(async path =>
+      Promise.resolve(path === bigFilePath ? 100_000 : 100)
+    );
+    adapter.evictionPolicy = gdsfPolicy;
+    const policyCache = new KeyValueCache(adapter);
+    await atTime(clock, () =>
+      policyCache.put({ id: `${MOCK_PREFIX}:A` }, bigFilePath)
+    );
+    await atTime(clock + 1, () => policyCache.get({ id: `${MOCK_PREFIX}:A` }));
+    await atTime(clock + 2, () => policyCache.get({ id: `${MOCK_PREFIX}:A` }));
+    await atTime(clock + 3, () =>
+      policyCache.put({ id: `${MOCK_PREFIX}:B` }, MOCK_FILE_PATH)
+    );
+    await atTime(clock + 4, () =>
+      policyCache.put({ id: `${MOCK_PREFIX}:C` }, MOCK_FILE_PATH)
+    );
+
+    expect(Object.keys(dictionary).sort()).toEqual([
+      `${MOCK_PREFIX}:B`,
+      `${MOCK_PREFIX}:C`,
+    ]);
+  });
+
+  it("gdsfPolicy ages out entries with many old hits", async () => {
+    let time = Date.now();
+    adapter.now = () => time++;
+    adapter.maxEntries = 2;
+    adapter.evictionPolicy = gdsfPolicy;
+    const policyCache = new KeyValueCache(adapter);
+    const evictedKeys: string[] = [];
+    policyCache.on("evict", ({ key }) => evictedKeys.push(key));
+    await policyCache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH);
+    for (let i = 0; i < 3; i++) {
+      await policyCache.get({ id: `${MOCK_PREFIX}:A` });
+    }
+
+    // Each eviction raises the inflation of the entries put after it, until they outrank A.
+    for (let i = 0; i < 10; i++) {
+      await policyCache.put({ id: `${MOCK_PREFIX}:${i}` }, MOCK_FILE_PATH);
+    }
+
+    expect(evictedKeys).toContain(`${MOCK_PREFIX}:A`);
+    expect(await policyCache.get({ id: `${MOCK_PREFIX}:9` })).toBe(
+      MOCK_FILE_PATH
+    );
+  });
+
+  it("the now option is the clock of the cache", async () => {
+    let time = 1_000_000;
+    adapter.now = () => time;
+    const clockedCache = new KeyValueCache(adapter);
+    const key = `${MOCK_PREFIX}:A`;
+    await clockedCache.put({ id: key }, MOCK_FILE_PATH);
+
+    expect((JSON.parse(dictionary[key]) as StoredEntry).entry).toMatchObject({
+      lastAccessed: time,
+      createdAt: time,
+    });
+
+    time += EVICTION_MILLIS + 1;
+    expect(await clockedCache.get({ id: key })).toBeNull();
+    expect(dictionary[key]).toBeUndefined();
+  });
+
+  it("the now option is rounded down to a positive integer", async () => {
+    let time = 1000.5;
+    adapter.now = () => time;
+    const clockedCache = new KeyValueCache(adapter);
+    const keyA = `${MOCK_PREFIX}:A`;
+    const keyB = `${MOCK_PREFIX}:B`;
+    expect(await clockedCache.put({ id: keyA }, MOCK_FILE_PATH)).toBe(true);
+    time = 0;
+    expect(await clockedCache.put({ id: keyB }, MOCK_FILE_PATH)).toBe(true);
+
+    expect((JSON.parse(dictionary[keyA]) as StoredEntry).entry).toMatchObject({
+      lastAccessed: 1000,
+      createdAt: 1000,
+    });
+    expect((JSON.parse(dictionary[keyB]) as StoredEntry).entry).toMatchObject({
+      lastAccessed: 1,
+      createdAt: 1,
+    });
+    expect(await clockedCache.get({ id: keyA })).toBe(MOCK_FILE_PATH);
+    expect(await clockedCache.get({ id: keyB })).toBe(MOCK_FILE_PATH);
+    expect(await clockedCache.getCurrentEntriesCount()).toBe(2);
+  });
+
+  it("entries accessed in the future are normalized when read", async () => {
+    let time = 1_000_000;
+    adapter.now = () => time;
+    const key = `${MOCK_PREFIX}:A`;
+    // Written before the clock moved backwards.
+    dictionary[key] = JSON.stringify({
+      version: 2,
+      entry: {
+        filePath: MOCK_FILE_PATH,
+        lastAccessed: time + 10 * EVICTION_MILLIS,
+        size: MOCK_FILE_SIZE,
+        createdAt: time + 10 * EVICTION_MILLIS,
+      },
+    });
+    const clockedCache = new KeyValueCache(adapter);
+
+    expect(await clockedCache.cleanExpiredEntries()).toBe(false);
+    expect((JSON.parse(dictionary[key]) as StoredEntry).entry).toMatchObject({
+      lastAccessed: time,
+      createdAt: time,
+    });
+
+    time += EVICTION_MILLIS + 1;
+    expect(await clockedCache.cleanExpiredEntries()).toBe(true);
+    expect(dictionary[key]).toBeUndefined();
+  });
+
+  it("indexed entries accessed in the future are normalized at boot", async () => {
+    let time = 1_000_000 + 10 * EVICTION_MILLIS;
+    adapter.now = () => time;
+    adapter.useIndex = true;
+    const key = `${MOCK_PREFIX}:A`;
+    await new KeyValueCache(adapter).put({ id: key }, MOCK_FILE_PATH);
+
+    time = 1_000_000;
+    const clockedCache = new KeyValueCache(adapter);
+    await clockedCache.ready();
+
+    const index = JSON.parse(
+      dictionary[`${MOCK_PREFIX}__index__`]
+    ) as StoredIndex;
+    expect(index.entries[0][1]).toBe(time);
+    expect(
+      (JSON.parse(dictionary[key]) as StoredEntry).entry.lastAccessed
+    ).toBe(time);
+
+    time += EVICTION_MILLIS + 1;
+    expect(await clockedCache.cleanExpiredEntries()).toBe(true);
+    expect(await clockedCache.getCurrentEntriesCount()).toBe(0);
+  });
+
+  it("indexed entries accessed in the future are normalized when the clock moves back while running", async () => {
+    let time = 1_000_000 + 10 * EVICTION_MILLIS;
+    adapter.now = () => time;
+    adapter.useIndex = true;
+    const clockedCache = new KeyValueCache(adapter);
+    const key = `${MOCK_PREFIX}:A`;
+    await clockedCache.put({ id: key }, MOCK_FILE_PATH);
+
+    time = 1_000_000;
+    expect(await clockedCache.cleanExpiredEntries()).toBe(false);
+    expect(
+      (JSON.parse(dictionary[key]) as StoredEntry).entry.lastAccessed
+    ).toBe(time);
+
+    time += EVICTION_MILLIS + 1;
+    expect(await clockedCache.cleanExpiredEntries()).toBe(true);
+    expect(await clockedCache.getCurrentEntriesCount()).toBe(0);
+  });
+
+  it("runMaintenance removes expired and orphaned entries a batch at a time", async () => {
+    let time = 1_000_000;
+    adapter.now = () => time;
+    adapter.maintenanceBatchSize = 2;
+    const maintainedCache = new KeyValueCache(adapter);
+    await maintainedCache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH, {
+      ttlMillis: 10,
+    });
+    await maintainedCache.put(
+      { id: `${MOCK_PREFIX}:B` },
+      MOCK_FILE_DOES_NOT_EXIST_PATH
+    );
+    await maintainedCache.put({ id: `${MOCK_PREFIX}:C` }, MOCK_FILE_PATH, {
+      ttlMillis: 10,
+    });
+    time += 11;
+
+    expect(await maintainedCache.runMaintenance()).toEqual({
+      checkedEntries: 2,
+      removedEntries: [`${MOCK_PREFIX}:A`, `${MOCK_PREFIX}:B`],
+      isRoundDone: false,
+    });
+    expect(dictionary[`${MOCK_PREFIX}:C`]).toBeDefined();
+
+    expect(await maintainedCache.runMaintenance()).toEqual({
+      checkedEntries: 1,
+      removedEntries: [`${MOCK_PREFIX}:C`],
+      isRoundDone: true,
+    });
+    expect(await maintainedCache.getCurrentEntriesCount()).toBe(0);
+  });
+
+  it("runMaintenance evicts entries over the limits", async () => {
+    const now = Date.now();
+    for (const id of ["A", "B", "C"]) {
+      dictionary[`${MOCK_PREFIX}:${id}`] = JSON.stringify({
+        version: 2,
+        entry: {
+          filePath: MOCK_FILE_PATH,
+          lastAccessed: now,
+          size: MOCK_FILE_SIZE,
+          createdAt: now,
+        },
+      });
+    }
+    adapter.maxEntries = 2;
+    const maintainedCache = new KeyValueCache(adapter);
+
+    const report = await maintainedCache.runMaintenance();
+
+    expect(report.removedEntries).toEqual([]);
+    expect(await maintainedCache.getCurrentEntriesCount()).toBe(2);
+  });
+
+  it("maintenance runs on its trigger until closed", async () => {
+    let time = 1_000_000;
+    adapter.now = () => time;
+    let trigger: () => void = () => undefined;
+    const stopTrigger = jest.fn();
+    adapter.maintenanceTrigger = jest.fn((runMaintenance: () => void) => {
+      trigger = runMaintenance;
+      return stopTrigger;
+    });
+    const maintainedCache = new KeyValueCache(adapter);
+    const evict = jest.fn();
+    maintainedCache.on("evict", evict);
+    await maintainedCache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH, {
+      ttlMillis: 10,
+    });
+    time += 11;
+    const isEvicted = new Promise<void>(resolve => {
+      maintainedCache.on("evict", () => resolve());
+    });
+
+    trigger();
+    await isEvicted;
+    expect(evict).toHaveBeenCalledTimes(1);
+
+    await maintainedCache.close();
+    expect(stopTrigger).toHaveBeenCalledTimes(1);
+  });
+
+  it("maintenance runs on its interval", async () => {
+    jest.useFakeTimers();
+    let time = 1_000_000;
+    adapter.now = () => time;
+    adapter.maintenanceMillis = 10;
+    const maintainedCache = new KeyValueCache(adapter);
+    await maintainedCache.put({ id: `${MOCK_PREFIX}:A` }, MOCK_FILE_PATH, {
+      ttlMillis: 10,
+    });
+    time += 11;
+
+    expect(dictionary[`${MOCK_PREFIX}:A`]).toBeDefined();
+
+    await jest.advanceTimersByTimeAsync(10);
+    expect(dictionary[`${MOCK_PREFIX}:A`]).toBeUndefined();
+
+    await maintainedCache.close();
+  });
+
+  it("planEviction lists what lower limits would evict, without evicting", async () => {
+    let time = 1_000_000;
+    adapter.now = () => time;
+    const plannedCache = new KeyValueCache(adapter);
+    for (const id of ["A", "B", "C"]) {
+      await plannedCache.put({ id: `${MOCK_PREFIX}:${id}` }, MOCK_FILE_PATH);
+      time++;
+    }
+    await plannedCache.pin({ id: `${MOCK_PREFIX}:A` });
+    const stored = { ...dictionary };
+
+    expect(await plannedCache.planEviction({ maxEntries: 2 })).toEqual({
+      evictions: [
+        {
+          key: `${MOCK_PREFIX}:B`,
+          filePath: MOCK_FILE_PATH,
+          size: MOCK_FILE_SIZE,
+          lastAccessed: 1_000_001,
+          reason: "count",
+        },
+      ],
+      entriesCount: 2,
+      diskSize: MOCK_FILE_SIZE * 2,
+    });
+
+    const sizePlan = await plannedCache.planEviction({
+      maxCacheSize: MOCK_FILE_SIZE,
+    });
+    expect(sizePlan.evictions.map(({ key, reason }) => [key, reason])).toEqual([
+      [`${MOCK_PREFIX}:B`, "size"],
+      [`${MOCK_PREFIX}:C`, "size"],
+    ]);
+
+    const agePlan = await plannedCache.planEviction({ evictionMillis: 1 });
+    expect(agePlan.evictions.map(({ key, reason }) => [key, reason])).toEqual([
+      [`${MOCK_PREFIX}:B`, "expired"],
+    ]);
+
+    expect(dictionary).toEqual(stored);
+    expect(await plannedCache.getCurrentEntriesCount()).toBe(3);
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(adapter.fileUnlink).not.toHaveBeenCalled();
+  });
+
+  it("applyPlan evicts the planned entries and reports the others", async () => {
+    let time = 1_000_000;
+    adapter.now = () => time;
+    const plannedCache = new KeyValueCache(adapter);
+    for (const id of ["A", "B", "C"]) {
+      await plannedCache.put({ id: `${MOCK_PREFIX}:${id}` }, MOCK_FILE_PATH);
+      time++;
+    }
+    const plan = await plannedCache.planEviction({ maxEntries: 0 });
+
+    await plannedCache.get({ id: `${MOCK_PREFIX}:B` });
+    adapter.deleteKeyValue.mockImplementation(async (key: string) => {
+      if (key === `${MOCK_PREFIX}:C`) {
+        return Promise.resolve(false);
+      }
+      delete dictionary[key];
+      return Promise.resolve(true);
+    });
+
+    expect(await plannedCache.applyPlan(plan)).toEqual({
+      evicted: [`${MOCK_PREFIX}:A`],
+      skipped: [`${MOCK_PREFIX}:B`],
+      failed: [
+        { key: `${MOCK_PREFIX}:C`, error: expect.any(StoreDeleteError) },
+      ],
+      bytesFreed: MOCK_FILE_SIZE,
+    });
+    expect(await plannedCache.getCurrentEntriesCount()).toBe(2);
+  });
+
+  it("applyPlan keeps going after a failure, and reports it with its cause", async () => {
+    let time = 1_000_000;
+    adapter.now = () => time;
+    const plannedCache = new KeyValueCache(adapter);
+    const unlinkFailingPath = "/mock/path/locked.jpg";
+    for (const id of ["A", "B", "C"]) {
+      await plannedCache.put(
+        { id: `${MOCK_PREFIX}:${id}` },
+        id === "B" ? unlinkFailingPath : MOCK_FILE_PATH
+      );
+      time++;
+    }
+    const plan = await plannedCache.planEviction({ maxEntries: 0 });
+    const storeError = new Error("Store unavailable");
+    const deleteKeyValue = adapter.deleteKeyValue.getMockImplementation()!;
+    adapter.deleteKeyValue.mockImplementation(async (key: string) => {
+      if (key === `${MOCK_PREFIX}:A`) {
+        throw storeError;
+      }
+      return deleteKeyValue(key);
+    });
+
+    const report = await plannedCache.applyPlan(plan);
+
+    expect(report.evicted).toEqual([`${MOCK_PREFIX}:C`]);
+    expect(report.bytesFreed).toBe(MOCK_FILE_SIZE);
+    expect(report.failed).toHaveLength(2);
+    const [deleteFailure, unlinkFailure] = report.failed;
+    expect(deleteFailure.key).toBe(`${MOCK_PREFIX}:A`);
+    expect(deleteFailure.error).toBeInstanceOf(StoreDeleteError);
+    expect(deleteFailure.error.cause).toBe(storeError);
+    expect(unlinkFailure.key).toBe(`${MOCK_PREFIX}:B`);
+    expect(unlinkFailure.error).toBeInstanceOf(FileUnlinkError);
+    expect(dictionary[`${MOCK_PREFIX}:A`]).toBeDefined();
+    expect(dictionary[`${MOCK_PREFIX}:B`]).toBeUndefined();
+  });
+
+  it("put resolves to false on failures without strict", async () => {
+    expect(await cache.put({ id: MOCK_NOT_FOUND_KEY }, MOCK_FILE_PATH)).toBe(
+      false
+    );
+    expect(
+      await cache.put({ id: MOCK_SET_DELETE_FALSE_KEY }, MOCK_FILE_PATH)
+    ).toBe(false);
+    expect(
+      await cache.put({ id: "missing" }, MOCK_FILE_DOES_NOT_EXIST_PATH)
+    ).toBe(true);
+  });
+
+  it("strict put throws typed errors instead of resolving to false", async () => {
+    adapter.strict = true;
+    const strictCache = new KeyValueCache(adapter);
+
+    await expect(
+      strictCache.put({ id: MOCK_NOT_FOUND_KEY }, MOCK_FILE_PATH)
+    ).rejects.toThrow(KeyUnresolvableError);
+    const fileMissingError = await strictCache
+      .put({ id: "missing" }, MOCK_FILE_DOES_NOT_EXIST_PATH)
+      .catch((err: unknown) => err);
+    expect(fileMissingError).toBeInstanceOf(FileMissingError);
+    expect(fileMissingError).toMatchObject({
+      key: "missing",
+      filePath: MOCK_FILE_DOES_NOT_EXIST_PATH,
+    });
+    expect(dictionary["missing"]).toBeUndefined();
+    await expect(
+      strictCache.put({ id: MOCK_SET_DELETE_FALSE_KEY }, MOCK_FILE_PATH)
+    ).rejects.toThrow(StoreWriteError);
+    expect(await strictCache.put({ id: "key" }, MOCK_FILE_PATH)).toBe(true);
+  });
+
+  it("strict put wraps a throwing store in a StoreWriteError with its cause", async () => {
+    const storeError = new Error("Disk full");
+    adapter.strict = true;
+    const strictCache = new KeyValueCache(adapter);
+    await strictCache.ready();
+    adapter.setValueForKey.mockRejectedValueOnce(storeError);
+
+    const error = await strictCache
+      .put({ id: "key" }, MOCK_FILE_PATH)
+      .catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(StoreWriteError);
+    expect(error).toMatchObject({ key: "key", cause: storeError });
+  });
+
+  it("put rethrows a throwing store as is without strict", async () => {
+    const storeError = new Error("Disk full");
+    await cache.ready();
+    adapter.setValueForKey.mockRejectedValueOnce(storeError);
+
+    await expect(cache.put({ id: "key" }, MOCK_FILE_PATH)).rejects.toBe(
+      storeError
+    );
+  });
+
+  it("strict delete throws typed errors, but not when there is nothing to delete", async () => {
+    adapter.strict = true;
+    const strictCache = new KeyValueCache(adapter);
+    dictionary[MOCK_SET_DELETE_FALSE_KEY] = "value";
+    dictionary["newer"] = JSON.stringify({ version: 999, entry: {} });
+
+    await expect(
+      strictCache.delete({ id: MOCK_NOT_FOUND_KEY })
+    ).rejects.toThrow(KeyUnresolvableError);
+    await expect(
+      strictCache.delete({ id: MOCK_SET_DELETE_FALSE_KEY })
+    ).rejects.toThrow(StoreDeleteError);
+    await expect(strictCache.delete({ id: "newer" })).rejects.toThrow(
+      UnknownVersionError
+    );
+    expect(await strictCache.delete({ id: "absent" })).toBe(false);
+  });
+
+  it("strict pin throws a CorruptEntryError for a corrupted entry", async () => {
+    adapter.strict = true;
+    const strictCache = new KeyValueCache(adapter);
+    await strictCache.ready();
+    dictionary["corrupt"] = "not json";
+
+    const error = await strictCache
+      .pin({ id: "corrupt" })
+      .catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(CorruptEntryError);
+    expect(error).toMatchObject({ key: "corrupt" });
+    expect(dictionary["corrupt"]).toBeUndefined();
+  });
 });